@@ -0,0 +1,48 @@
+import { AbortError } from "./errors.ts";
+
+/**
+ * Throw an AbortError if the signal was aborted
+ */
+export const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) {
+    throw new AbortError(signal.reason);
+  }
+};
+
+/**
+ * Settle like `promise` - or reject with an AbortError as soon as the
+ * signal is aborted
+ *
+ * @param dispose Called with the result of `promise` if it arrives after
+ *                the abort (e.g. to close a watcher which is not needed anymore)
+ */
+export const raceAbort = <T>(
+  promise: Promise<T>,
+  signal?: AbortSignal,
+  dispose?: (value: T) => void,
+): Promise<T> => {
+  if (!signal) {
+    return promise;
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new AbortError(signal.reason));
+    if (signal.aborted) {
+      onAbort();
+    } else {
+      signal.addEventListener("abort", onAbort, { once: true });
+    }
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        if (signal.aborted) {
+          dispose?.(value);
+        }
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(error);
+      },
+    );
+  });
+};
@@ -0,0 +1,56 @@
+import { FileChanges, WatchCallback } from "./types.ts";
+import { createFileChanges, hasChanges, mergeFileChanges } from "./changes.ts";
+
+/**
+ * Wraps a callback so that changes arriving within `batchDelay` ms of each
+ * other are merged and delivered at once - at the latest after `maxBatchDelay` ms
+ *
+ * The first call (the initial scan) is passed through without delay
+ */
+export function createBatchedCallback(
+  callback: WatchCallback,
+  batchDelay: number,
+  maxBatchDelay: number = Infinity,
+): { callback: WatchCallback; cancel: () => void } {
+  let isInitial = true;
+  let pending: FileChanges | undefined;
+  let debounceTimer: ReturnType<typeof setTimeout> | undefined;
+  let maxDelayTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const clearTimers = () => {
+    clearTimeout(debounceTimer);
+    clearTimeout(maxDelayTimer);
+    debounceTimer = undefined;
+    maxDelayTimer = undefined;
+  };
+
+  const flush = () => {
+    clearTimers();
+    const changes = pending;
+    pending = undefined;
+    if (changes && hasChanges(changes)) {
+      callback(changes);
+    }
+  };
+
+  const batchedCallback = (changes: FileChanges) => {
+    if (isInitial) {
+      isInitial = false;
+      return callback(changes);
+    }
+    pending = mergeFileChanges(pending || createFileChanges(), changes);
+    clearTimeout(debounceTimer);
+    debounceTimer = setTimeout(flush, batchDelay);
+    if (!maxDelayTimer && Number.isFinite(maxBatchDelay)) {
+      maxDelayTimer = setTimeout(flush, maxBatchDelay);
+    }
+  };
+
+  return {
+    callback: batchedCallback,
+    cancel: () => {
+      clearTimers();
+      pending = undefined;
+    },
+  };
+}
@@ -0,0 +1,109 @@
+import { FileChanges, FileInfo, RenamedFile } from "./types.ts";
+
+/**
+ * Create an empty FileChanges object
+ *
+ * @param withRenames Include an empty `renamed` map
+ */
+export const createFileChanges = (withRenames = false): FileChanges => {
+  const changes: FileChanges = {
+    added: new Map<string, FileInfo>(),
+    deleted: new Map<string, FileInfo>(),
+    changed: new Map<string, FileInfo>(),
+  };
+  if (withRenames) {
+    changes.renamed = new Map<string, RenamedFile>();
+  }
+  return changes;
+};
+
+/**
+ * Check if a FileChanges object contains at least one change
+ */
+export const hasChanges = (changes: FileChanges): boolean =>
+  changes.added.size > 0 ||
+  changes.deleted.size > 0 ||
+  changes.changed.size > 0 ||
+  (changes.renamed?.size ?? 0) > 0;
+
+/**
+ * Count the paths of a FileChanges object
+ */
+export const countChanges = (changes: FileChanges): number =>
+  changes.added.size +
+  changes.deleted.size +
+  changes.changed.size +
+  (changes.renamed?.size ?? 0);
+
+/**
+ * Merge `incoming` into `target` as if both had happened in one step:
+ *
+ * - added + deleted => not reported
+ * - added + changed => added
+ * - added + renamed => added (at the new path)
+ * - deleted + added => changed
+ * - changed + deleted => deleted
+ * - renamed + deleted => deleted (at the original path)
+ * - renamed + renamed => renamed (from the original path)
+ */
+export const mergeFileChanges = (
+  target: FileChanges,
+  incoming: FileChanges,
+): FileChanges => {
+  if (incoming.renamed && !target.renamed) {
+    target.renamed = new Map<string, RenamedFile>();
+  }
+  const renamed = target.renamed;
+
+  for (const [filePath, fileInfo] of incoming.deleted) {
+    if (target.added.delete(filePath)) {
+      // The file never existed from the consumer's point of view
+      continue;
+    }
+    const rename = renamed?.get(filePath);
+    if (rename) {
+      // The consumer only knows about the original path
+      renamed!.delete(filePath);
+      target.deleted.set(rename.from, fileInfo);
+      continue;
+    }
+    target.changed.delete(filePath);
+    target.deleted.set(filePath, fileInfo);
+  }
+  for (const [filePath, fileInfo] of incoming.added) {
+    if (target.deleted.delete(filePath) || target.changed.has(filePath)) {
+      target.changed.set(filePath, fileInfo);
+    } else {
+      target.added.set(filePath, fileInfo);
+    }
+  }
+  for (const [filePath, fileInfo] of incoming.changed) {
+    const rename = renamed?.get(filePath);
+    if (target.added.has(filePath)) {
+      target.added.set(filePath, fileInfo);
+    } else if (rename) {
+      renamed!.set(filePath, { from: rename.from, info: fileInfo });
+    } else {
+      target.deleted.delete(filePath);
+      target.changed.set(filePath, fileInfo);
+    }
+  }
+  for (const [filePath, { from, info }] of incoming.renamed || []) {
+    if (target.added.delete(from)) {
+      target.added.set(filePath, info);
+      continue;
+    }
+    // Follow chains like a -> b -> c back to the original path
+    const original = renamed!.get(from)?.from ?? from;
+    renamed!.delete(from);
+    target.changed.delete(from);
+    target.deleted.delete(filePath);
+    if (original === filePath) {
+      // Moved back to where it started
+      target.changed.set(filePath, info);
+    } else {
+      renamed!.set(filePath, { from: original, info });
+    }
+  }
+  return target;
+};
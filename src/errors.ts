@@ -1,3 +1,7 @@
+import type { BackendMode, WatchOptions } from "./types.ts";
+import { getWatchLimit } from "./limits.ts";
+import type { WatchLimit } from "./limits.ts";
+
 export const logError = (msg: string, error?: unknown): void => {
   if (error) {
     console.error(`${msg}:`, error);
@@ -5,3 +9,115 @@ export const logError = (msg: string, error?: unknown): void => {
     console.error(msg);
   }
 };
+
+/**
+ * Details shared by all watch errors
+ */
+export interface WatchErrorDetails {
+  /** The backend which ran into the problem */
+  backend: BackendMode;
+  /** The file or directory the error is about */
+  path?: string;
+  /** The underlying error (e.g. from fs or fb-watchman) */
+  cause?: unknown;
+}
+
+/**
+ * Base class for all errors reported by glob-watch
+ *
+ * `recoverable` errors don't stop the watcher - e.g. a single directory
+ * which could not be watched or a backend which was replaced by a fallback
+ */
+export class WatchError extends Error {
+  readonly backend: BackendMode;
+  readonly path?: string;
+  readonly recoverable: boolean;
+
+  constructor(
+    message: string,
+    { backend, path, cause }: WatchErrorDetails,
+    recoverable = true,
+  ) {
+    super(message, { cause });
+    this.name = new.target.name;
+    this.backend = backend;
+    this.path = path;
+    this.recoverable = recoverable;
+  }
+}
+
+/**
+ * fb-watchman is not installed or the watchman daemon can't be reached
+ */
+export class WatchmanUnavailableError extends WatchError {}
+
+/**
+ * The system limit for file watchers or open files was hit (ENOSPC, EMFILE)
+ */
+export class WatchLimitExceededError extends WatchError {
+  /** The limit which was hit with its current and a suggested value */
+  readonly limit?: WatchLimit;
+
+  constructor(message: string, details: WatchErrorDetails, recoverable = true) {
+    super(message, details, recoverable);
+    this.limit = getWatchLimit(
+      (details.cause as NodeJS.ErrnoException | undefined)?.code,
+    );
+  }
+}
+
+/**
+ * A file or directory could not be accessed (EACCES, EPERM)
+ */
+export class PermissionDeniedError extends WatchError {}
+
+/**
+ * The watchman subscription could not be created - the watcher does not run
+ */
+export class SubscriptionFailedError extends WatchError {
+  constructor(message: string, details: WatchErrorDetails) {
+    super(message, details, false);
+  }
+}
+
+/**
+ * The operation was cancelled with `options.signal`
+ */
+export class AbortError extends Error {
+  constructor(reason?: unknown) {
+    super("The operation was aborted", { cause: reason });
+    this.name = "AbortError";
+  }
+}
+
+/**
+ * Wrap an error from fs in the matching WatchError class
+ */
+export const toWatchError = (
+  message: string,
+  details: WatchErrorDetails,
+): WatchError => {
+  const code = (details.cause as NodeJS.ErrnoException | undefined)?.code;
+  switch (code) {
+    case "ENOSPC":
+    case "EMFILE":
+    case "ENFILE":
+      return new WatchLimitExceededError(message, details);
+    case "EACCES":
+    case "EPERM":
+      return new PermissionDeniedError(message, details);
+    default:
+      return new WatchError(message, details);
+  }
+};
+
+/**
+ * Pass an error to `options.onError` or log it if there is no handler
+ */
+export const reportError = (error: WatchError, options: WatchOptions): void => {
+  if (options.onError) {
+    options.onError(error);
+  } else {
+    logError(error.message, error.cause);
+  }
+};
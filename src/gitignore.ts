@@ -0,0 +1,349 @@
+import fs from "node:fs";
+import path from "node:path";
+import { isInside } from "./paths.ts";
+
+/**
+ * A single line of a .gitignore file
+ */
+interface GitignoreRule {
+  /** The directory of the .gitignore file (absolute) */
+  baseDir: string;
+  /** The pattern as a glob relative to `baseDir` */
+  glob: string;
+  /** `!pattern` re-includes paths */
+  negated: boolean;
+  /** `pattern/` only matches directories */
+  directoryOnly: boolean;
+  isMatch: (relativePath: string) => boolean;
+}
+
+/**
+ * The ignore rules of all .gitignore files for a directory
+ */
+export interface Gitignore {
+  /**
+   * Check if a path (relative to cwd, `/` separated) is ignored by git
+   */
+  isIgnored(relativePath: string, isDirectory: boolean): boolean;
+  /**
+   * Globs (relative to cwd) for the rules which can't be undone by a
+   * negation - backends use them to skip whole directories up front
+   */
+  ignorePatterns: string[];
+  /** The loaded files (absolute paths) */
+  files: string[];
+  /**
+   * Read the given .gitignore files (absolute paths) again after they were
+   * written, created or removed - all other files are taken over without
+   * reading them. Directories which are no longer ignored are searched
+   * for .gitignore files.
+   */
+  reload(filePaths: string[]): Promise<Gitignore>;
+}
+
+/**
+ * The rules of a loaded .gitignore or exclude file
+ */
+interface GitignoreFile {
+  baseDir: string;
+  rules: GitignoreRule[];
+}
+
+/**
+ * Load the .gitignore files of cwd, its parents up to the repository root,
+ * all non-ignored subdirectories and `.git/info/exclude`
+ *
+ * Rules are applied like git does: later rules and deeper files win,
+ * and nothing inside an ignored directory can be re-included
+ */
+export const loadGitignore = async (cwd: string): Promise<Gitignore> => {
+  const rootDir = path.resolve(cwd);
+  const loader = await createLoader(rootDir, new Map(), new Set());
+
+  // .git/info/exclude and the .gitignore files above cwd
+  const gitRoot = findGitRoot(rootDir);
+  if (gitRoot) {
+    await loader.readFile(
+      path.join(gitRoot, ".git", "info", "exclude"),
+      gitRoot,
+    );
+    for (
+      let dirPath = path.dirname(rootDir);
+      isInside(dirPath, gitRoot);
+      dirPath = path.dirname(dirPath)
+    ) {
+      await loader.readFile(path.join(dirPath, ".gitignore"), dirPath);
+    }
+  }
+  await loader.walk(rootDir);
+  return loader.toGitignore();
+};
+
+/**
+ * Holds the loaded files of a Gitignore while they are read
+ *
+ * @param files - The loaded files by path
+ * @param skippedDirs - Ignored directories which were not searched for
+ *   .gitignore files
+ */
+const createLoader = async (
+  rootDir: string,
+  files: Map<string, GitignoreFile>,
+  skippedDirs: Set<string>,
+) => {
+  const { default: micromatch } = await import("micromatch");
+  // All rules by precedence - undefined after the files changed
+  let rules: GitignoreRule[] | undefined;
+  // Results for directories - checked again for every file inside
+  const directoryCache = new Map<string, boolean>();
+
+  /**
+   * The rules of all files - the exclude file comes first, deeper
+   * .gitignore files last
+   */
+  const getRules = () =>
+    (rules ??= [...files]
+      .sort(
+        ([filePath, { baseDir }], [otherPath, other]) =>
+          Number(isGitignoreFile(filePath)) -
+            Number(isGitignoreFile(otherPath)) ||
+          baseDir.split(path.sep).length - other.baseDir.split(path.sep).length,
+      )
+      .flatMap(([, file]) => file.rules));
+
+  /**
+   * Read the rules of a file - a missing file is removed
+   */
+  const readFile = async (filePath: string, baseDir: string) => {
+    files.delete(filePath);
+    rules = undefined;
+    directoryCache.clear();
+    let content: string;
+    try {
+      content = await fs.promises.readFile(filePath, "utf8");
+    } catch {
+      return;
+    }
+    const fileRules: GitignoreRule[] = [];
+    for (const line of content.split(/\r?\n/)) {
+      const rule = parseRule(line, baseDir);
+      if (rule) {
+        const isMatch = micromatch.matcher(rule.glob, {
+          dot: true,
+          // git knows neither braces nor extglobs
+          nobrace: true,
+          noext: true,
+        });
+        fileRules.push({ ...rule, isMatch });
+      }
+    }
+    files.set(filePath, { baseDir, rules: fileRules });
+  };
+
+  /** Apply the rules to a single path - the last matching rule wins */
+  const matchRules = (absolutePath: string, isDirectory: boolean) => {
+    let ignored = false;
+    for (const rule of getRules()) {
+      if (rule.directoryOnly && !isDirectory) {
+        continue;
+      }
+      const relativePath = toPosix(path.relative(rule.baseDir, absolutePath));
+      if (
+        relativePath === "" ||
+        relativePath.startsWith("..") ||
+        path.isAbsolute(relativePath)
+      ) {
+        continue;
+      }
+      if (rule.isMatch(relativePath)) {
+        ignored = !rule.negated;
+      }
+    }
+    return ignored;
+  };
+
+  const isIgnored = (relativePath: string, isDirectory: boolean): boolean => {
+    const segments = toPosix(relativePath).split("/").filter(Boolean);
+    // A path inside of an ignored directory is always ignored
+    let dirPath = rootDir;
+    for (const segment of segments.slice(0, -1)) {
+      dirPath = path.join(dirPath, segment);
+      let ignored = directoryCache.get(dirPath);
+      if (ignored === undefined) {
+        ignored = matchRules(dirPath, true);
+        directoryCache.set(dirPath, ignored);
+      }
+      if (ignored) {
+        return true;
+      }
+    }
+    return (
+      segments.length > 0 &&
+      matchRules(path.join(rootDir, ...segments), isDirectory)
+    );
+  };
+
+  // Read the .gitignore files of a directory and its non-ignored subdirectories
+  const walk = async (dirPath: string): Promise<void> => {
+    skippedDirs.delete(dirPath);
+    await readFile(path.join(dirPath, ".gitignore"), dirPath);
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(dirPath, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      if (!entry.isDirectory() || entry.name === ".git") {
+        continue;
+      }
+      const subDirPath = path.join(dirPath, entry.name);
+      if (isIgnored(path.relative(rootDir, subDirPath), true)) {
+        skippedDirs.add(subDirPath);
+      } else {
+        await walk(subDirPath);
+      }
+    }
+  };
+
+  const toGitignore = (): Gitignore => ({
+    isIgnored,
+    ignorePatterns: getIgnorePatterns(getRules(), rootDir),
+    files: [...files.keys()],
+    reload: async (filePaths) => {
+      const next = await createLoader(
+        rootDir,
+        new Map(files),
+        new Set(skippedDirs),
+      );
+      for (const filePath of filePaths) {
+        const dirPath = path.dirname(filePath);
+        // New files inside of ignored directories are not read by git
+        if (
+          files.has(filePath) ||
+          !isInside(dirPath, rootDir) ||
+          !next.isIgnored(path.relative(rootDir, dirPath), true)
+        ) {
+          await next.readFile(
+            filePath,
+            files.get(filePath)?.baseDir ?? dirPath,
+          );
+        }
+      }
+      // Directories which are no longer ignored may contain .gitignore files
+      for (const dirPath of skippedDirs) {
+        if (!next.isIgnored(path.relative(rootDir, dirPath), true)) {
+          await next.walk(dirPath);
+        }
+      }
+      return next.toGitignore();
+    },
+  });
+
+  return { readFile, isIgnored, walk, toGitignore };
+};
+
+/**
+ * Check if a changed path is a .gitignore file
+ */
+export const isGitignoreFile = (filePath: string): boolean =>
+  path.basename(filePath) === ".gitignore";
+
+/**
+ * Turn a line of a .gitignore file into a rule - undefined for comments
+ * and blank lines
+ */
+const parseRule = (
+  line: string,
+  baseDir: string,
+): Omit<GitignoreRule, "isMatch"> | undefined => {
+  // Trailing spaces are ignored unless they are escaped
+  let pattern = line.replace(/(?<!\\)\s+$/, "");
+  if (pattern === "" || pattern.startsWith("#")) {
+    return undefined;
+  }
+  const negated = pattern.startsWith("!");
+  if (negated) {
+    pattern = pattern.slice(1);
+  } else if (pattern.startsWith("\\!") || pattern.startsWith("\\#")) {
+    pattern = pattern.slice(1);
+  }
+  const directoryOnly = pattern.endsWith("/");
+  pattern = pattern.replace(/\/+$/, "");
+  if (pattern === "") {
+    return undefined;
+  }
+  // A slash at the start or in the middle anchors the pattern to the
+  // directory of the .gitignore file - otherwise it matches at any depth
+  const isAnchored = pattern.includes("/");
+  pattern = pattern.replace(/^\//, "");
+  return {
+    baseDir,
+    glob: isAnchored || pattern.startsWith("**") ? pattern : `**/${pattern}`,
+    negated,
+    directoryOnly,
+  };
+};
+
+/**
+ * Convert the rules which no later negation can undo into globs relative to cwd
+ */
+const getIgnorePatterns = (
+  rules: GitignoreRule[],
+  rootDir: string,
+): string[] => {
+  const patterns: string[] = [];
+  rules.forEach((rule, index) => {
+    if (rule.negated) {
+      return;
+    }
+    const negations = rules.slice(index + 1).filter(({ negated }) => negated);
+    if (negations.some((negation) => mayOverlap(rule.glob, negation.glob))) {
+      return;
+    }
+    let glob: string;
+    if (rule.baseDir === rootDir || isInside(rule.baseDir, rootDir)) {
+      const prefix = toPosix(path.relative(rootDir, rule.baseDir));
+      glob = prefix ? `${prefix}/${rule.glob}` : rule.glob;
+    } else if (rule.glob.startsWith("**/")) {
+      // Rules of parent directories which match at any depth
+      glob = rule.glob;
+    } else {
+      return;
+    }
+    // Directory only rules need the type of the entry itself,
+    // but everything inside is ignored for sure
+    if (!rule.directoryOnly) {
+      patterns.push(glob);
+    }
+    patterns.push(`${glob}/**`);
+  });
+  return patterns;
+};
+
+/**
+ * Check if two globs could match the same path - only globs whose last
+ * segments are different plain names are known to be disjoint
+ */
+const mayOverlap = (glob: string, otherGlob: string): boolean => {
+  const name = glob.split("/").pop()!;
+  const otherName = otherGlob.split("/").pop()!;
+  return /[*?[\\]/.test(name + otherName) || name === otherName;
+};
+
+/**
+ * Find the closest directory with a `.git` folder or file (worktrees)
+ */
+const findGitRoot = (dirPath: string): string | undefined => {
+  for (let current = dirPath; ; current = path.dirname(current)) {
+    if (fs.existsSync(path.join(current, ".git"))) {
+      return current;
+    }
+    if (current === path.dirname(current)) {
+      return undefined;
+    }
+  }
+};
+
+const toPosix = (filePath: string): string =>
+  filePath.split(path.sep).join("/");
@@ -0,0 +1,31 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import { WatchOptions } from "./types.ts";
+
+/**
+ * Check if the content hash has to be computed for the given options
+ */
+export const needsContentHash = (options: WatchOptions): boolean =>
+  Boolean(options.contentChangesOnly || options.fields?.includes("sha1"));
+
+/**
+ * Returns a key which changes whenever a file is written (mtime and size) -
+ * a cheap check before the content hash
+ */
+export const getSignature = (stats?: fs.Stats): string =>
+  stats ? `${stats.mtimeMs}:${stats.size}` : "";
+
+/**
+ * Compute the sha1 hex digest of a file's content
+ * Returns undefined if the file can't be read (e.g. because it was deleted)
+ */
+export const hashFile = async (
+  filePath: string,
+): Promise<string | undefined> => {
+  try {
+    const content = await fs.promises.readFile(filePath);
+    return crypto.createHash("sha1").update(content).digest("hex");
+  } catch {
+    return undefined;
+  }
+};
@@ -1,9 +1,20 @@
 import {
   WatchCallback,
   WatchOptions,
-  DestroyFunction,
   CreateWatcher,
+  ActiveWatcher,
+  Watcher,
+  WatcherMode,
+  BackendMode,
+  ModeSelection,
+  FileChanges,
+  FileInfo,
 } from "./types.ts";
+import { AbortError, reportError, WatchError } from "./errors.ts";
+import { raceAbort, throwIfAborted } from "./abort.ts";
+import { createBatchedCallback } from "./batch.ts";
+import { iterateChanges } from "./iterable.ts";
+import { createSerialCallback } from "./serial.ts";
 
 /**
  * Watch for file changes that match the given glob pattern(s)
@@ -11,32 +22,316 @@ import {
  * @param patterns Glob pattern(s) to watch
  * @param callback Function to call when files change
  * @param options Watch options
- * @returns A function that will stop watching
+ * @returns A watcher handle which resolves after the initial scan
+ *          (it can be called to stop watching)
  *
  * @example
- *
+ * const watcher = await watch("src/*.ts", (changes) => {});
+ * await watcher.add("tests/*.ts");
+ * await watcher.close();
  */
 export async function watch(
   patterns: string | string[],
   callback: WatchCallback,
   options: WatchOptions = {},
-): Promise<DestroyFunction> {
-  let watcher: CreateWatcher;
+): Promise<Watcher> {
+  const watcher = openWatcher(patterns, callback, options);
+  await watcher.ready;
+  return watcher;
+}
+
+/**
+ * Start watching without waiting for the initial scan
+ *
+ * @param patterns Glob pattern(s) to watch
+ * @param callback Function to call when files change
+ * @param options Watch options
+ * @returns A watcher handle - `ready` resolves after the initial scan
+ */
+export function openWatcher(
+  patterns: string | string[],
+  callback: WatchCallback,
+  options: WatchOptions = {},
+): Watcher {
+  const requested = options.mode || "auto";
+  const candidates = BACKEND_FALLBACKS[requested];
+  let watchedPatterns = toPatternList(patterns);
+  let backend: ActiveWatcher | undefined;
+  let isClosed = false;
+  const concurrency = options.concurrency ?? 1;
+  // Pattern updates are applied one after another
+  let updates = Promise.resolve();
+
+  // The backend which is starting or running - for error reports
+  let activeMode: BackendMode = candidates ? candidates[0] : "native";
+
+  // Every backend reports the initial scan with its first call
+  let isInitialScan = true;
+
+  // Deliver changes in order - changes which arrive while the callback
+  // is still busy are merged into the next call
+  const serialCallback = createSerialCallback(
+    (changes) => {
+      if (isInitialScan) {
+        isInitialScan = false;
+        if (options.ignoreInitial) {
+          return undefined;
+        }
+      }
+      return isClosed ? undefined : callback(changes);
+    },
+    concurrency,
+    (error) =>
+      reportError(
+        new WatchError("The watch callback failed", {
+          backend: activeMode,
+          cause: error,
+        }),
+        options,
+      ),
+  );
+
+  const batched =
+    options.batchDelay === undefined
+      ? undefined
+      : createBatchedCallback(
+          serialCallback,
+          options.batchDelay,
+          options.maxBatchDelay,
+        );
+
+  // Aborting rejects `ready` right away - a backend which is still
+  // starting is destroyed once it is ready
+  const ready = raceAbort(
+    (async () => {
+      if (!candidates) {
+        throw new Error(`Unknown watcher mode: ${options.mode}`);
+      }
+      // Changes would be held back forever without a free slot
+      if (!Number.isInteger(concurrency) || concurrency < 1) {
+        throw new Error(
+          `Invalid concurrency: ${options.concurrency} (must be an integer of at least 1)`,
+        );
+      }
+      throwIfAborted(options.signal);
+      backend = await watchWithFallback(
+        watchedPatterns,
+        batched ? batched.callback : serialCallback,
+        options,
+        requested,
+        candidates,
+        (mode) => {
+          activeMode = mode;
+        },
+      );
+      if (isClosed) {
+        backend();
+        return;
+      }
+      options.onReady?.(backend.getWatchedFiles());
+    })(),
+    options.signal,
+  );
+  // Avoid unhandled rejections - callers see the error through `ready`
+  ready.catch(() => {});
+
+  const close = async () => {
+    if (isClosed) {
+      return;
+    }
+    isClosed = true;
+    options.signal?.removeEventListener("abort", onAbort);
+    batched?.cancel();
+    if (backend) {
+      backend();
+      return;
+    }
+    // A backend which is still starting is destroyed once it is ready
+    await ready.catch(() => {});
+  };
+
+  const onAbort = () => {
+    void close();
+  };
+  options.signal?.addEventListener("abort", onAbort, { once: true });
+
+  const setPatterns = (nextPatterns: string[]) => {
+    updates = updates.then(async () => {
+      await ready;
+      if (isClosed) {
+        return;
+      }
+      watchedPatterns = nextPatterns;
+      await backend!.setPatterns(nextPatterns);
+    });
+    return updates;
+  };
+
+  return Object.assign(
+    () => {
+      void close();
+    },
+    {
+      ready,
+      close,
+      add: (patterns: string | string[]) =>
+        setPatterns([
+          ...new Set([...watchedPatterns, ...toPatternList(patterns)]),
+        ]),
+      unwatch: (patterns: string | string[]) => {
+        const removed = new Set(toPatternList(patterns));
+        return setPatterns(
+          watchedPatterns.filter((pattern) => !removed.has(pattern)),
+        );
+      },
+      getWatchedFiles: () => backend?.getWatchedFiles() ?? new Map(),
+      getMetrics: () =>
+        backend?.getMetrics() ?? {
+          handles: 0,
+          events: 0,
+          recursive: false,
+          polled: 0,
+        },
+    },
+  );
+}
+
+/**
+ * Watch for file changes and consume them with `for await`
+ *
+ * Leaving the loop stops watching. Changes that happen while the loop body
+ * is still running are merged and yielded together.
+ *
+ * @param patterns Glob pattern(s) to watch
+ * @param options Watch options
+ * @returns An async iterable of file changes
+ *
+ * @example
+ * for await (const changes of watchIterable("src/*.ts")) {
+ *   console.log(changes.added);
+ * }
+ */
+export function watchIterable(
+  patterns: string | string[],
+  options: WatchOptions = {},
+): AsyncIterable<FileChanges> {
+  // fast-glob only reports once, so the iteration ends after the scan
+  let isOneTimeScan = false;
+  return iterateChanges(
+    watch,
+    patterns,
+    {
+      ...options,
+      onModeSelected: (selection) => {
+        isOneTimeScan = selection.mode === "fast-glob";
+        options.onModeSelected?.(selection);
+      },
+    },
+    () => isOneTimeScan,
+  );
+}
+
+/**
+ * The backends to try (in order) for each watcher mode
+ */
+const BACKEND_FALLBACKS: Record<WatcherMode, BackendMode[]> = {
+  auto: ["watchman", "native", "fast-glob"],
+  // Explicit watchman mode keeps its historical fallback to native
+  watchman: ["watchman", "native"],
+  native: ["native"],
+  "fast-glob": ["fast-glob"],
+  poll: ["poll"],
+};
+
+/**
+ * The backends to try (in order) for one-time scans
+ */
+function getScanCandidates(requested: WatcherMode): BackendMode[] | undefined {
+  // A one-time scan gains nothing from fs.watch so auto skips native here
+  return requested === "auto"
+    ? ["watchman", "fast-glob"]
+    : BACKEND_FALLBACKS[requested];
+}
+
+/**
+ * Try each candidate backend in order until one starts successfully
+ * and report the selection to `options.onModeSelected`
+ */
+function watchWithFallback(
+  patterns: string | string[],
+  callback: WatchCallback,
+  options: WatchOptions,
+  requested: WatcherMode,
+  candidates: BackendMode[],
+  onAttempt?: (mode: BackendMode) => void,
+): Promise<ActiveWatcher> {
+  return startWithFallback(options, requested, candidates, async (mode) => {
+    onAttempt?.(mode);
+    const watcher = await loadBackend(mode);
+    return watcher(patterns, callback, options);
+  });
+}
+
+/**
+ * Call `start` for each candidate backend in order until it succeeds
+ * and report the selection to `options.onModeSelected`
+ */
+async function startWithFallback<T>(
+  options: WatchOptions,
+  requested: WatcherMode,
+  candidates: BackendMode[],
+  start: (mode: BackendMode) => Promise<T>,
+): Promise<T> {
+  const fallbacks: ModeSelection["fallbacks"] = [];
+  for (const [index, mode] of candidates.entries()) {
+    const isLast = index === candidates.length - 1;
+    let started: T;
+    try {
+      throwIfAborted(options.signal);
+      started = await start(mode);
+    } catch (error) {
+      // An aborted scan is not retried with the next backend
+      if (isLast || error instanceof AbortError) {
+        throw error;
+      }
+      const reason = error instanceof Error ? error.message : String(error);
+      fallbacks.push({ mode, reason });
+      // Watching goes on with the next backend so the error is recoverable
+      const fallbackError =
+        error instanceof WatchError && error.recoverable
+          ? error
+          : new WatchError(`Failed to start ${mode} watcher, falling back`, {
+              backend: mode,
+              cause: error,
+            });
+      // Only log fallbacks from an explicitly requested backend
+      if (options.onError || requested === mode) {
+        reportError(fallbackError, options);
+      }
+      continue;
+    }
+    options.onModeSelected?.({ requested, mode, fallbacks });
+    return started;
+  }
+  // Unreachable - the last candidate either returns or throws
+  throw new Error(`No watcher backend available for mode: ${requested}`);
+}
 
-  switch (options.mode) {
+/**
+ * Load a backend implementation lazily so optional dependencies
+ * are only imported when they are used
+ */
+async function loadBackend(mode: BackendMode): Promise<CreateWatcher> {
+  switch (mode) {
     case "watchman":
-      watcher = (await import("./watchers/watchman.ts")).watch;
-      break;
+      return (await import("./watchers/watchman.ts")).watch;
     case "native":
-      watcher = (await import("./watchers/native.ts")).watch;
-      break;
+      return (await import("./watchers/native.ts")).watch;
     case "fast-glob":
-      watcher = (await import("./watchers/fast-glob.ts")).watch;
-      break;
-    default:
-      throw new Error(`Unknown watcher mode: ${options.mode}`);
+      return (await import("./watchers/fast-glob.ts")).watch;
+    case "poll":
+      return (await import("./watchers/poll.ts")).watch;
   }
-  return watcher(patterns, callback, options);
 }
 
 /**
@@ -51,27 +346,133 @@ export async function findFiles(
   patterns: string | string[],
   options: WatchOptions = {},
 ): Promise<string[]> {
-  return new Promise(async (resolve, reject) => {
-    try {
-      const destroy = await watch(
-        patterns,
-        (fileChange) => {
-          const files: string[] = [];
-          for (const [fileName, fileMeta] of fileChange.added) {
-            if (fileMeta.exists) {
-              files.push(fileName);
-            }
+  return [...(await findFileInfos(patterns, options)).keys()];
+}
+
+/**
+ * Find files that match the given glob pattern(s) including the
+ * requested `fields`
+ *
+ * @param patterns Glob pattern(s) to watch
+ * @param options Watch options
+ * @returns A promise that resolves to the FileInfo of every file by path
+ */
+export async function findFileInfos(
+  patterns: string | string[],
+  options: WatchOptions = {},
+): Promise<Map<string, FileInfo>> {
+  const requested = options.mode || "auto";
+  const candidates = getScanCandidates(requested);
+  if (!candidates) {
+    throw new Error(`Unknown watcher mode: ${options.mode}`);
+  }
+  // Every backend reports the initial scan before it resolves
+  const files = new Map<string, FileInfo>();
+  const destroy = await raceAbort(
+    watchWithFallback(
+      patterns,
+      (fileChange) => {
+        for (const [fileName, fileMeta] of fileChange.added) {
+          if (fileMeta.exists) {
+            files.set(fileName, fileMeta);
           }
-          resolve(files);
-        },
-        options,
-      );
-      destroy();
-    } catch (error) {
-      reject(error);
+        }
+      },
+      options,
+      requested,
+      candidates,
+    ),
+    options.signal,
+    // A backend which finished starting after the abort is not needed
+    (lateDestroy) => lateDestroy(),
+  );
+  destroy();
+  return files;
+}
+
+/**
+ * Find files that match the given glob pattern(s) and yield each of them
+ * as soon as it is found - the files are never collected in memory
+ *
+ * Leaving the loop early stops the scan.
+ *
+ * @param patterns Glob pattern(s) to watch
+ * @param options Watch options
+ * @returns An async iterable of the FileInfo of every file
+ *
+ * @example
+ * for await (const file of findFilesStream("src/*.ts")) {
+ *   console.log(file.path);
+ * }
+ */
+export async function* findFilesStream(
+  patterns: string | string[],
+  options: WatchOptions = {},
+): AsyncGenerator<FileInfo, void, undefined> {
+  const requested = options.mode || "auto";
+  const candidates = getScanCandidates(requested);
+  if (!candidates) {
+    throw new Error(`Unknown watcher mode: ${options.mode}`);
+  }
+  const { iterator, first } = await startWithFallback(
+    options,
+    requested,
+    candidates,
+    async (mode) => {
+      const stream = await loadStream(mode);
+      const iterator = stream(patterns, options)[Symbol.asyncIterator]();
+      // Problems with the backend show up with the first result
+      return { iterator, first: await iterator.next() };
+    },
+  );
+  try {
+    for (let result = first; !result.done; result = await iterator.next()) {
+      yield result.value;
     }
-  });
+  } finally {
+    await iterator.return?.();
+  }
 }
 
+/**
+ * Load the streaming scan of a backend lazily
+ */
+async function loadStream(
+  mode: BackendMode,
+): Promise<
+  (
+    patterns: string | string[],
+    options: WatchOptions,
+  ) => AsyncIterable<FileInfo>
+> {
+  switch (mode) {
+    case "watchman":
+      return (await import("./watchers/watchman.ts")).queryFileInfos;
+    default:
+      // native and poll start with the same fast-glob scan
+      return (await import("./watchers/fast-glob.ts")).scanStream;
+  }
+}
+
+/**
+ * Normalize a pattern argument to a list of patterns
+ */
+function toPatternList(patterns: string | string[]): string[] {
+  return Array.isArray(patterns) ? [...patterns] : [patterns];
+}
+
+export { writeSnapshot, getChangesSince } from "./snapshot.ts";
+export { withState } from "./state.ts";
+
 // Re-export types
 export * from "./types.ts";
+export {
+  AbortError,
+  WatchError,
+  WatchmanUnavailableError,
+  WatchLimitExceededError,
+  PermissionDeniedError,
+  SubscriptionFailedError,
+} from "./errors.ts";
+export type { WatchErrorDetails } from "./errors.ts";
+export type { WatchLimit } from "./limits.ts";
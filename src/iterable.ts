@@ -0,0 +1,67 @@
+import {
+  DestroyFunction,
+  FileChanges,
+  WatchCallback,
+  WatchOptions,
+} from "./types.ts";
+import { createFileChanges, mergeFileChanges } from "./changes.ts";
+import { throwIfAborted } from "./abort.ts";
+
+/**
+ * Turn a callback based watcher into an async iterable
+ *
+ * The watcher starts with the first `next()` call and is destroyed once the
+ * consumer leaves the loop. Changes which arrive while the consumer is busy
+ * are merged into a single `FileChanges` object instead of being queued.
+ * Aborting `options.signal` ends the iteration with an AbortError.
+ *
+ * @param isComplete Called whenever all changes were consumed - returning
+ *                   true ends the iteration (e.g. for one-time scans)
+ */
+export async function* iterateChanges(
+  createWatcher: (
+    patterns: string | string[],
+    callback: WatchCallback,
+    options?: WatchOptions,
+  ) => Promise<DestroyFunction>,
+  patterns: string | string[],
+  options: WatchOptions = {},
+  isComplete: () => boolean = () => false,
+): AsyncGenerator<FileChanges, void, undefined> {
+  let pending: FileChanges | undefined;
+  let wake: (() => void) | undefined;
+  const { signal } = options;
+  const onAbort = () => wake?.();
+
+  const destroy = await createWatcher(
+    patterns,
+    (changes) => {
+      pending = mergeFileChanges(pending || createFileChanges(), changes);
+      wake?.();
+    },
+    options,
+  );
+
+  signal?.addEventListener("abort", onAbort);
+  try {
+    while (true) {
+      throwIfAborted(signal);
+      if (!pending) {
+        if (isComplete()) {
+          return;
+        }
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+        });
+        wake = undefined;
+        continue;
+      }
+      const changes = pending;
+      pending = undefined;
+      yield changes;
+    }
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+    destroy();
+  }
+}
@@ -0,0 +1,87 @@
+import fs from "node:fs";
+
+/**
+ * A system limit for file watchers or open files
+ */
+export interface WatchLimit {
+  /** The name of the limit, e.g. "fs.inotify.max_user_watches" */
+  name: string;
+  /** The current value - undefined if it can't be read on this platform */
+  current?: number;
+  /** A value which leaves enough room for large repositories */
+  suggested: number;
+}
+
+/**
+ * The common recommendation of editors and bundlers for inotify watches
+ */
+const SUGGESTED_INOTIFY_WATCHES = 524288;
+const SUGGESTED_OPEN_FILES = 65536;
+
+/**
+ * Find out which limit an fs error code stands for and read its current value
+ */
+export const getWatchLimit = (
+  code: string | undefined,
+): WatchLimit | undefined => {
+  switch (code) {
+    case "ENOSPC": {
+      // fs.watch fails with ENOSPC once all inotify watches are used
+      const current = readNumber("/proc/sys/fs/inotify/max_user_watches");
+      return {
+        name: "fs.inotify.max_user_watches",
+        current,
+        suggested: suggest(current, SUGGESTED_INOTIFY_WATCHES),
+      };
+    }
+    case "EMFILE": {
+      const current = readOpenFilesLimit();
+      return {
+        name: "open files (ulimit -n)",
+        current,
+        suggested: suggest(current, SUGGESTED_OPEN_FILES),
+      };
+    }
+    case "ENFILE": {
+      const current = readNumber("/proc/sys/fs/file-max");
+      return {
+        name: "fs.file-max",
+        current,
+        suggested: suggest(current, SUGGESTED_OPEN_FILES),
+      };
+    }
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * At least the recommended value, or double the current one
+ */
+const suggest = (current: number | undefined, minimum: number): number =>
+  Math.max(minimum, (current ?? 0) * 2);
+
+/**
+ * Read a number from a file like /proc/sys/... - undefined if that fails
+ */
+const readNumber = (filePath: string): number | undefined => {
+  try {
+    const value = parseInt(fs.readFileSync(filePath, "utf8"), 10);
+    return Number.isNaN(value) ? undefined : value;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Read the soft limit for open files of this process (Linux only)
+ */
+const readOpenFilesLimit = (): number | undefined => {
+  try {
+    const limits = fs.readFileSync("/proc/self/limits", "utf8");
+    const match = /^Max open files\s+(\d+)/m.exec(limits);
+    return match ? parseInt(match[1], 10) : undefined;
+  } catch {
+    return undefined;
+  }
+};
@@ -0,0 +1,19 @@
+import path from "node:path";
+
+/**
+ * Check if `childPath` is inside of `parentPath`
+ */
+export const isInside = (childPath: string, parentPath: string): boolean =>
+  path.relative(parentPath, childPath) !== "" &&
+  isInsideOrEqual(childPath, parentPath);
+
+/**
+ * Check if `childPath` is `parentPath` or inside of it
+ */
+export const isInsideOrEqual = (
+  childPath: string,
+  parentPath: string,
+): boolean => {
+  const relativePath = path.relative(parentPath, childPath);
+  return !relativePath.startsWith("..") && !path.isAbsolute(relativePath);
+};
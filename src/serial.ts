@@ -0,0 +1,45 @@
+import { FileChanges, WatchCallback } from "./types.ts";
+import { createFileChanges, mergeFileChanges } from "./changes.ts";
+
+/**
+ * Wraps a callback so that at most `concurrency` calls run at the same time
+ *
+ * Changes which arrive while all slots are busy are merged and delivered
+ * as one batch once a call finishes. Errors and rejections of the callback
+ * are passed to `onError`.
+ *
+ * The returned callback resolves once the given changes were handled
+ * (or merged into a batch which will be delivered later)
+ */
+export function createSerialCallback(
+  callback: WatchCallback,
+  concurrency: number,
+  onError: (error: unknown) => void,
+): WatchCallback {
+  let running = 0;
+  let pending: FileChanges | undefined;
+
+  const run = async (changes: FileChanges): Promise<void> => {
+    running++;
+    try {
+      await callback(changes);
+    } catch (error) {
+      onError(error);
+    } finally {
+      running--;
+    }
+    if (pending && running < concurrency) {
+      const next = pending;
+      pending = undefined;
+      await run(next);
+    }
+  };
+
+  return (changes: FileChanges) => {
+    if (running >= concurrency) {
+      pending = mergeFileChanges(pending || createFileChanges(), changes);
+      return;
+    }
+    return run(changes);
+  };
+}
@@ -0,0 +1,310 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { FileChanges, FileInfo, WatchOptions } from "./types.ts";
+import { createFileChanges } from "./changes.ts";
+import { reportError, WatchError } from "./errors.ts";
+import { scanWithStats } from "./watchers/fast-glob.ts";
+
+/**
+ * Snapshots written by other versions of the format are ignored
+ */
+const SNAPSHOT_VERSION = 1;
+
+/**
+ * What is stored about every file to detect modifications
+ */
+interface ManifestEntry {
+  size: number;
+  /** Modification time in whole milliseconds */
+  mtime: number;
+  ino: number;
+  sha1?: string;
+}
+
+/**
+ * The content of a snapshot file
+ */
+interface Snapshot {
+  version: number;
+  /** The patterns and filters the snapshot was taken for */
+  query: string;
+  /** The watchman clock - only available if the snapshot was taken with watchman */
+  clock?: string;
+  /** Files by their path relative to `cwd` */
+  files: Record<string, ManifestEntry>;
+}
+
+/**
+ * The current state of the files
+ */
+interface CurrentFiles {
+  clock?: string;
+  /**
+   * All matching files are listed - files missing from the list were deleted
+   * (otherwise only files changed since the clock are listed)
+   */
+  isComplete: boolean;
+  /** Files by their path relative to `cwd` - deleted files have no entry */
+  files: Map<string, { info: FileInfo; entry?: ManifestEntry }>;
+}
+
+/**
+ * Record the current state of all files matching the patterns
+ *
+ * Together with `getChangesSince` this tells which files changed while
+ * no process was watching, e.g. to reuse a build cache.
+ * With watchman the snapshot stores the watchman clock, otherwise only
+ * a manifest of paths, sizes, modification times and inodes.
+ *
+ * @param patterns Glob pattern(s) to record
+ * @param file Path of the snapshot file (relative to `options.cwd`)
+ * @param options Watch options
+ *
+ * @example
+ * const changes = await getChangesSince("src/*.ts", ".cache/files.json");
+ * await build(changes);
+ * await writeSnapshot("src/*.ts", ".cache/files.json");
+ */
+export async function writeSnapshot(
+  patterns: string | string[],
+  file: string,
+  options: WatchOptions = {},
+): Promise<void> {
+  const current = await getCurrentFiles(patterns, options);
+  const snapshot: Snapshot = {
+    version: SNAPSHOT_VERSION,
+    query: getQueryKey(patterns, options),
+    clock: current.clock,
+    files: {},
+  };
+  for (const [filePath, { entry }] of current.files) {
+    if (entry) {
+      snapshot.files[filePath] = entry;
+    }
+  }
+  const snapshotPath = path.resolve(options.cwd || process.cwd(), file);
+  await fs.promises.mkdir(path.dirname(snapshotPath), { recursive: true });
+  await fs.promises.writeFile(snapshotPath, JSON.stringify(snapshot));
+}
+
+/**
+ * Compare the files matching the patterns with a snapshot
+ * written by `writeSnapshot`
+ *
+ * If the snapshot file does not exist all files are reported as added.
+ *
+ * @param patterns Glob pattern(s) to compare
+ * @param file Path of the snapshot file (relative to `options.cwd`)
+ * @param options Watch options
+ * @returns The files which were added, changed or deleted since the snapshot
+ */
+export async function getChangesSince(
+  patterns: string | string[],
+  file: string,
+  options: WatchOptions = {},
+): Promise<FileChanges> {
+  const cwd = options.cwd || process.cwd();
+  const snapshot = await readSnapshot(path.resolve(cwd, file));
+  const previous = snapshot?.files ?? {};
+  // The clock only tells about changes of the same query
+  const since =
+    snapshot?.query === getQueryKey(patterns, options)
+      ? snapshot.clock
+      : undefined;
+  const current = await getCurrentFiles(patterns, options, since);
+
+  const toOutputInfo = (info: FileInfo): FileInfo =>
+    options.absolute ? { ...info, path: path.resolve(cwd, info.path) } : info;
+
+  const changes = createFileChanges();
+  for (const [filePath, { info, entry }] of current.files) {
+    const before = Object.hasOwn(previous, filePath)
+      ? previous[filePath]
+      : undefined;
+    const output = toOutputInfo(info);
+    if (!entry) {
+      if (before) {
+        changes.deleted.set(output.path, output);
+      }
+    } else if (!before) {
+      changes.added.set(output.path, output);
+    } else if (isModified(before, entry, options)) {
+      changes.changed.set(output.path, output);
+    }
+  }
+  if (current.isComplete) {
+    for (const filePath of Object.keys(previous)) {
+      if (!current.files.has(filePath)) {
+        const info = toOutputInfo({
+          name: path.basename(filePath),
+          path: filePath,
+          exists: false,
+        });
+        changes.deleted.set(info.path, info);
+      }
+    }
+  }
+  return changes;
+}
+
+/**
+ * Read a snapshot file - returns undefined if it does not exist
+ * or was written by another version
+ */
+async function readSnapshot(file: string): Promise<Snapshot | undefined> {
+  let content: string;
+  try {
+    content = await fs.promises.readFile(file, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return undefined;
+    }
+    throw error;
+  }
+  const snapshot = JSON.parse(content) as Snapshot;
+  return snapshot.version === SNAPSHOT_VERSION ? snapshot : undefined;
+}
+
+/**
+ * Everything which changes the set of matching files
+ */
+function getQueryKey(
+  patterns: string | string[],
+  options: WatchOptions,
+): string {
+  return JSON.stringify([
+    Array.isArray(patterns) ? patterns : [patterns],
+    options.ignore,
+    Boolean(options.dot),
+    Boolean(options.onlyDirectories),
+    options.onlyFiles !== false,
+    Boolean(options.followSymbolicLinks),
+    Boolean(options.followSymbolicLinksOutsideCwd),
+    Boolean(options.reportSymbolicLinks),
+    Boolean(options.gitignore),
+  ]);
+}
+
+/**
+ * Check if a file was modified - with `contentChangesOnly` only
+ * a different content hash counts
+ */
+function isModified(
+  before: ManifestEntry,
+  after: ManifestEntry,
+  options: WatchOptions,
+): boolean {
+  if (
+    options.contentChangesOnly &&
+    before.sha1 !== undefined &&
+    after.sha1 !== undefined
+  ) {
+    return before.sha1 !== after.sha1;
+  }
+  return (
+    before.size !== after.size ||
+    before.mtime !== after.mtime ||
+    before.ino !== after.ino
+  );
+}
+
+/**
+ * Query watchman (auto and watchman mode) or scan the files with fast-glob
+ */
+async function getCurrentFiles(
+  patterns: string | string[],
+  options: WatchOptions,
+  since?: string,
+): Promise<CurrentFiles> {
+  const requested = options.mode || "auto";
+  if (requested === "auto" || requested === "watchman") {
+    try {
+      return await queryWatchman(patterns, options, since);
+    } catch (error) {
+      // Same as for `watch` - only an explicit watchman mode logs the fallback
+      if (options.onError || requested === "watchman") {
+        reportError(
+          error instanceof WatchError && error.recoverable
+            ? error
+            : new WatchError("Failed to query watchman, falling back", {
+                backend: "watchman",
+                cause: error,
+              }),
+          options,
+        );
+      }
+    }
+  }
+  return scanManifest(patterns, options);
+}
+
+/**
+ * Get the files from watchman - with `since` only the changed ones
+ */
+async function queryWatchman(
+  patterns: string | string[],
+  options: WatchOptions,
+  since?: string,
+): Promise<CurrentFiles> {
+  const { query, createFileInfo } = await import("./watchers/watchman.ts");
+  // Manifest paths are always relative
+  const queryOptions = { ...options, absolute: false };
+  const result = await query(
+    patterns,
+    queryOptions,
+    ["size", "mtime_ms", "ino"],
+    since,
+  );
+  const files: CurrentFiles["files"] = new Map();
+  for (const file of result.files) {
+    const info = createFileInfo(file, "", queryOptions);
+    if (file.exists === false) {
+      files.set(info.path, { info });
+      continue;
+    }
+    const mtime =
+      typeof file.mtime_ms === "number"
+        ? file.mtime_ms
+        : (file.mtime_ms?.toNumber() ?? 0);
+    const entry: ManifestEntry = {
+      size: file.size ?? 0,
+      mtime: Math.floor(mtime),
+      ino: file.ino ?? 0,
+    };
+    if (info.sha1 !== undefined) {
+      entry.sha1 = info.sha1;
+    }
+    files.set(info.path, { info, entry });
+  }
+  return {
+    clock: result.clock,
+    isComplete: !since || result.isFreshInstance,
+    files,
+  };
+}
+
+/**
+ * Scan all files with fast-glob
+ */
+async function scanManifest(
+  patterns: string | string[],
+  options: WatchOptions,
+): Promise<CurrentFiles> {
+  const entries = await scanWithStats(patterns, {
+    ...options,
+    absolute: false,
+  });
+  const files: CurrentFiles["files"] = new Map();
+  for (const [filePath, { info, stats }] of entries) {
+    const entry: ManifestEntry = {
+      size: stats?.size ?? 0,
+      mtime: Math.floor(stats?.mtimeMs ?? 0),
+      ino: stats?.ino ?? 0,
+    };
+    if (info.sha1 !== undefined) {
+      entry.sha1 = info.sha1;
+    }
+    files.set(filePath, { info, entry });
+  }
+  return { isComplete: true, files };
+}
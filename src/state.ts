@@ -0,0 +1,41 @@
+import type { StateOptions } from "./types.ts";
+import { WatchmanUnavailableError } from "./errors.ts";
+
+/**
+ * Run a bulk operation (e.g. a code generator) inside of a watchman state
+ *
+ * Watchers which list the state in their `defer` option report all changes
+ * of the operation as one batch once it finished, with `drop` the changes
+ * are not reported at all. Without watchman the operation just runs.
+ *
+ * @param name The name of the state
+ * @param operation The function which changes the files
+ * @param options State options
+ * @returns The result of the operation
+ *
+ * @example
+ * await withState("codegen", () => generateTypes());
+ */
+export async function withState<T>(
+  name: string,
+  operation: () => T | Promise<T>,
+  options: StateOptions = {},
+): Promise<T> {
+  const cwd = options.cwd || process.cwd();
+  let leave: (() => Promise<void>) | undefined;
+  try {
+    const { enterState } = await import("./watchers/watchman.ts");
+    leave = await enterState(cwd, name, options.metadata);
+  } catch (error) {
+    // Without watchman no watcher can wait for the state
+    if (!(error instanceof WatchmanUnavailableError)) {
+      throw error;
+    }
+  }
+  try {
+    return await operation();
+  } finally {
+    // Watchman abandons the state if leaving fails with a lost connection
+    await leave?.().catch(() => {});
+  }
+}
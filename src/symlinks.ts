@@ -0,0 +1,63 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { WatchOptions } from "./types.ts";
+import { isInsideOrEqual } from "./paths.ts";
+
+/**
+ * Creates a function which decides if a symbolic link is followed
+ * (`followSymbolicLinks` option) - shared by all backends which walk
+ * the file system themselves
+ *
+ * A link is not followed if
+ * - its target does not exist
+ * - its target is outside of cwd (unless `followSymbolicLinksOutsideCwd` is set)
+ * - its target contains a directory the link was reached through, as
+ *   following it would never end (e.g. `src/loop -> ..`)
+ */
+export const createSymlinkFilter = (
+  options: WatchOptions,
+): ((linkPath: string) => boolean) => {
+  const cwd = path.resolve(options.cwd || process.cwd());
+  const realCwd = getRealPath(cwd) ?? cwd;
+  return (linkPath: string) => {
+    if (!options.followSymbolicLinks) {
+      return false;
+    }
+    const absolutePath = path.resolve(cwd, linkPath);
+    const target = getRealPath(absolutePath);
+    if (!target) {
+      return false;
+    }
+    if (
+      !options.followSymbolicLinksOutsideCwd &&
+      !isInsideOrEqual(target, realCwd)
+    ) {
+      return false;
+    }
+    // Check every directory on the way from cwd to the link
+    for (
+      let dirPath = path.dirname(absolutePath);
+      ;
+      dirPath = path.dirname(dirPath)
+    ) {
+      const realPath = getRealPath(dirPath);
+      if (realPath && isInsideOrEqual(realPath, target)) {
+        return false;
+      }
+      if (dirPath === cwd || dirPath === path.dirname(dirPath)) {
+        return true;
+      }
+    }
+  };
+};
+
+/**
+ * Resolve all symbolic links of a path - undefined if it does not exist
+ */
+const getRealPath = (filePath: string): string | undefined => {
+  try {
+    return fs.realpathSync(filePath);
+  } catch {
+    return undefined;
+  }
+};
@@ -1,3 +1,5 @@
+import type { WatchError } from "./errors.ts";
+
 /**
  * Information about a watched file
  */
@@ -11,6 +13,8 @@ export interface FileInfo {
   type?: string;
   size?: number;
   mtime?: number;
+  /** Hex encoded sha1 hash of the file content (files only) */
+  sha1?: string;
 }
 
 /**
@@ -20,6 +24,21 @@ export interface FileChanges {
   added: Map<string, FileInfo>;
   deleted: Map<string, FileInfo>;
   changed: Map<string, FileInfo>;
+  /**
+   * Files which were moved or renamed, keyed by their new path
+   * Only available if the `renames` option is enabled
+   */
+  renamed?: Map<string, RenamedFile>;
+}
+
+/**
+ * A file which was moved from one watched path to another
+ */
+export interface RenamedFile {
+  /** The previous path of the file */
+  from: string;
+  /** The file info for the new path */
+  info: FileInfo;
 }
 
 /**
@@ -30,7 +49,49 @@ export type WatchCallback = (changes: FileChanges) => void | Promise<void>;
 /**
  * The available watcher modes
  */
-export type WatcherMode = "watchman" | "native" | "fast-glob";
+export type WatcherMode = "auto" | "watchman" | "native" | "fast-glob" | "poll";
+
+/**
+ * The watcher backends that can actually run ("auto" resolves to one of these)
+ */
+export type BackendMode = Exclude<WatcherMode, "auto">;
+
+/**
+ * Describes which backend was chosen and why others were skipped
+ */
+export interface ModeSelection {
+  /** The mode that was requested in the options */
+  requested: WatcherMode;
+  /** The backend that is actually running */
+  mode: BackendMode;
+  /** The backends that were tried first and the reason they were not used */
+  fallbacks: Array<{ mode: BackendMode; reason: string }>;
+}
+
+/**
+ * A watchman state which was entered or left
+ */
+export interface WatchmanState {
+  /** The name of the state, e.g. "hg.update" */
+  name: string;
+  /** Data passed by the process which asserted the state */
+  metadata?: unknown;
+  /** The process which asserted the state disconnected without leaving it */
+  abandoned?: boolean;
+}
+
+/**
+ * Options for the withState function
+ */
+export interface StateOptions {
+  /**
+   * The directory whose watch root gets the state
+   * @default process.cwd()
+   */
+  cwd?: string;
+  /** Data passed to `onStateEnter` and `onStateLeave` of the watchers */
+  metadata?: unknown;
+}
 
 /**
  * Options for the watch function
@@ -38,20 +99,62 @@ export type WatcherMode = "watchman" | "native" | "fast-glob";
 export interface WatchOptions {
   /**
    * The watcher implementation to use
-   * @default 'watchman'
+   *
+   * "auto" tries watchman, then native and finally fast-glob
+   * @default 'auto'
    */
   mode?: WatcherMode;
 
+  /**
+   * Called once the backend has been chosen, including the reason for any fallback
+   */
+  onModeSelected?: (selection: ModeSelection) => void;
+
+  /**
+   * Called once the initial scan is done and changes are watched, with all
+   * files which match the patterns (also with `ignoreInitial`)
+   */
+  onReady?: (files: Map<string, FileInfo>) => void;
+
+  /**
+   * Don't report the files of the initial scan as `added` - the callback
+   * is only called for changes after the scan (`findFiles` ignores it)
+   * @default false
+   */
+  ignoreInitial?: boolean;
+
+  /**
+   * Called for problems while watching (e.g. a directory which can't be watched)
+   * Check `error.recoverable` to tell warnings from fatal errors
+   * @default errors are logged with console.error
+   */
+  onError?: (error: WatchError) => void;
+
   /**
    * Patterns to ignore (will not be watched or returned)
    * @default undefined
    */
   ignore?: string | string[];
 
+  /**
+   * Skip files which are ignored by git - reads the .gitignore files of cwd,
+   * its subdirectories and parents and `.git/info/exclude`
+   * Changes to .gitignore files inside of cwd are applied while watching
+   * @default false
+   */
+  gitignore?: boolean;
+
   /**
    * Fields to include in the FileInfo objects
    */
-  fields?: Array<"type" | "size" | "mtime">;
+  fields?: Array<"type" | "size" | "mtime" | "sha1">;
+
+  /**
+   * Drop `changed` entries whose content hash did not change
+   * (e.g. after `touch`) - implies the "sha1" field
+   * @default false
+   */
+  contentChangesOnly?: boolean;
 
   /**
    * Return absolute paths instead of relative paths
@@ -77,6 +180,129 @@ export interface WatchOptions {
    */
   dot?: boolean;
 
+  /**
+   * Follow symbolic links to files and directories - their content is
+   * reported below the path of the link. Links which would lead into a loop
+   * are not followed.
+   * Not supported by watchman ("auto" and "watchman" use native instead)
+   * @default false
+   */
+  followSymbolicLinks?: boolean;
+
+  /**
+   * Also follow symbolic links whose target is outside of `cwd`
+   * (e.g. linked workspace packages)
+   * @default false
+   */
+  followSymbolicLinksOutsideCwd?: boolean;
+
+  /**
+   * Report symbolic links which are not followed as entries of type "l"
+   * instead of skipping them
+   * @default false
+   */
+  reportSymbolicLinks?: boolean;
+
+  /**
+   * Report moved or renamed files in `changes.renamed` instead of
+   * as an unrelated deletion and addition (not supported by fast-glob)
+   * @default false
+   */
+  renames?: boolean;
+
+  /**
+   * How many callback calls may run at the same time
+   * Changes which arrive while all calls are busy are merged and delivered
+   * once a call finished (1 keeps the order of changes)
+   * Must be an integer of at least 1
+   * @default 1
+   */
+  concurrency?: number;
+
+  /**
+   * Merge changes that happen within this many milliseconds of each other
+   * into a single callback (the initial scan is never delayed)
+   * @default undefined (every change is reported immediately)
+   */
+  batchDelay?: number;
+
+  /**
+   * The longest time in milliseconds a change may be held back by `batchDelay`
+   * @default undefined (no limit)
+   */
+  maxBatchDelay?: number;
+
+  /**
+   * Watch every pattern base directory with a single recursive fs.watch
+   * instead of one watcher per directory (native mode)
+   * Linked directories (`followSymbolicLinks`) always need a watcher each
+   * On Linux Node.js emulates it with a watch for every file and directory
+   * below the base (ignored ones included)
+   * @default true on macOS and Windows
+   */
+  recursiveWatch?: boolean;
+
+  /**
+   * Time in milliseconds between two scans of the "poll" mode - also used
+   * for directories the native backend polls after hitting the watch limit
+   * @default 1000
+   */
+  pollInterval?: number;
+
+  /**
+   * How often the watchman backend tries to connect again after the
+   * connection to the daemon was lost (e.g. a restarted daemon)
+   * Changes made in the meantime are reported once it is back
+   * @default 10
+   */
+  reconnectAttempts?: number;
+
+  /**
+   * Milliseconds to wait before the second reconnect attempt - doubled for
+   * every further attempt (at most 5 seconds)
+   * @default 100
+   */
+  reconnectDelay?: number;
+
+  /**
+   * Continue with the native backend if watchman can't be reached again
+   * after all reconnect attempts (otherwise the watcher stops with
+   * a non-recoverable error)
+   * @default false
+   */
+  fallbackOnDisconnect?: boolean;
+
+  /**
+   * Watchman states (e.g. "hg.update" or a name passed to `withState`)
+   * during which changes are held back - they are reported together once
+   * the state is left (watchman only)
+   * @default undefined
+   */
+  defer?: string[];
+
+  /**
+   * Watchman states during which changes are discarded (watchman only)
+   * @default undefined
+   */
+  drop?: string[];
+
+  /**
+   * Called when a watchman state is asserted on the watched root (watchman only)
+   */
+  onStateEnter?: (state: WatchmanState) => void;
+
+  /**
+   * Called when a watchman state is left or abandoned (watchman only)
+   */
+  onStateLeave?: (state: WatchmanState) => void;
+
+  /**
+   * Stop watching once the signal is aborted - a watcher which is still
+   * scanning stops right away and `watch` and `findFiles` reject with
+   * an AbortError
+   */
+  signal?: AbortSignal;
+
   /**
    * The directory to use as the base for relative paths
    * @default process.cwd()
@@ -89,6 +315,49 @@ export interface WatchOptions {
  */
 export type DestroyFunction = () => void;
 
+/**
+ * A running watcher backend
+ * Calling it stops watching (like a DestroyFunction)
+ */
+export type ActiveWatcher = DestroyFunction & {
+  /**
+   * Replace the watched patterns - files which start or stop matching
+   * are reported as added or deleted
+   */
+  setPatterns(patterns: string[]): Promise<void>;
+  /**
+   * All files which currently match the patterns
+   */
+  getWatchedFiles(): Map<string, FileInfo>;
+  /**
+   * Open handles and received events
+   */
+  getMetrics(): WatcherMetrics;
+};
+
+/**
+ * Resource usage and throughput of a running watcher
+ */
+export interface WatcherMetrics {
+  /**
+   * Open watch handles - OS watches of fs.watch (native) or
+   * watchman subscriptions (watchman)
+   */
+  handles: number;
+  /**
+   * Events received since the watcher started - sample it twice to get
+   * the throughput
+   */
+  events: number;
+  /** The native backend watches each pattern base with a recursive fs.watch */
+  recursive: boolean;
+  /**
+   * Directory trees the native backend polls because the system limit
+   * for watchers or open files was reached
+   */
+  polled: number;
+}
+
 /**
  * Interface that all watcher implementations must implement
  */
@@ -96,4 +365,36 @@ export type CreateWatcher = (
   patterns: string | string[],
   callback: WatchCallback,
   options?: WatchOptions,
-) => Promise<DestroyFunction>;
+) => Promise<ActiveWatcher>;
+
+/**
+ * The handle returned by `watch` and `openWatcher`
+ * Calling it stops watching (like a DestroyFunction)
+ */
+export type Watcher = DestroyFunction & {
+  /**
+   * Resolves once the initial scan was reported to the callback
+   */
+  ready: Promise<void>;
+  /**
+   * Stop watching
+   */
+  close(): Promise<void>;
+  /**
+   * Start watching additional patterns
+   */
+  add(patterns: string | string[]): Promise<void>;
+  /**
+   * Stop watching the given patterns
+   */
+  unwatch(patterns: string | string[]): Promise<void>;
+  /**
+   * All files which currently match the watched patterns
+   */
+  getWatchedFiles(): Map<string, FileInfo>;
+  /**
+   * Open handles and received events of the running backend
+   * (all zero until the backend is ready)
+   */
+  getMetrics(): WatcherMetrics;
+};
@@ -1,11 +1,19 @@
 import {
   WatchCallback,
   WatchOptions,
-  DestroyFunction,
-  FileChanges,
+  ActiveWatcher,
   FileInfo,
 } from "../types.ts";
 import path from "node:path";
+import fs from "node:fs";
+import type { Readable } from "node:stream";
+import { hashFile, needsContentHash } from "../hash.ts";
+import { createSymlinkFilter } from "../symlinks.ts";
+import { loadGitignore, Gitignore } from "../gitignore.ts";
+import { createFileChanges, hasChanges } from "../changes.ts";
+import type { Entry, Options } from "fast-glob";
+import { AbortError } from "../errors.ts";
+import { throwIfAborted } from "../abort.ts";
 
 /**
  * Uses fast-glob to perform a one-time scan of files matching the provided patterns.
@@ -15,88 +23,350 @@ export const watch = async (
   patterns: string | string[],
   callback: WatchCallback,
   options: WatchOptions = {},
-): Promise<DestroyFunction> => {
-  let fg = (await import("fast-glob")).default;
+): Promise<ActiveWatcher> => {
+  // Scan errors reject the watch call
+  let files = await scan(patterns, options, undefined, options.signal);
+
+  // Call the callback with our file changes
+  const changes = createFileChanges();
+  for (const [filePath, fileInfo] of files) {
+    changes.added.set(filePath, fileInfo);
+  }
+  await callback(changes);
+
+  /**
+   * Scan again for the new patterns and report the difference
+   */
+  const setPatterns = async (patternList: string[]): Promise<void> => {
+    const nextFiles = await scan(patternList, options);
+    const changes = createFileChanges();
+    for (const [filePath, fileInfo] of files) {
+      if (!nextFiles.has(filePath)) {
+        changes.deleted.set(filePath, fileInfo);
+      }
+    }
+    for (const [filePath, fileInfo] of nextFiles) {
+      if (!files.has(filePath)) {
+        changes.added.set(filePath, fileInfo);
+      }
+    }
+    files = nextFiles;
+    if (hasChanges(changes)) {
+      await callback(changes);
+    }
+  };
+
+  // Return a destroy function that does nothing since this is a one-time operation
+  return Object.assign(
+    () => {
+      // No cleanup needed for fast-glob
+    },
+    {
+      setPatterns,
+      getWatchedFiles: () => new Map(files),
+      // A one-time scan holds no handles and receives no events
+      getMetrics: () => ({
+        handles: 0,
+        events: 0,
+        recursive: false,
+        polled: 0,
+      }),
+    },
+  );
+};
+
+/**
+ * Find all files matching the patterns with fast-glob
+ * and create their FileInfo objects
+ */
+export const scan = async (
+  patterns: string | string[],
+  options: WatchOptions = {},
+  gitignore?: Gitignore,
+  signal?: AbortSignal,
+): Promise<Map<string, FileInfo>> => {
+  const files = new Map<string, FileInfo>();
+  for (const [filePath, { info }] of await scanWithStats(
+    patterns,
+    options,
+    gitignore,
+    signal,
+  )) {
+    files.set(filePath, info);
+  }
+  return files;
+};
+
+/**
+ * A file found by `scanWithStats`
+ */
+export interface ScanEntry {
+  info: FileInfo;
+  stats?: fs.Stats;
+}
+
+/**
+ * Same as `scan` but keeps the fs.Stats of every entry
+ * The .gitignore files are read for every scan unless `gitignore` is given
+ * Aborting `signal` stops the scan and rejects with an AbortError
+ */
+export const scanWithStats = async (
+  patterns: string | string[],
+  options: WatchOptions = {},
+  gitignore?: Gitignore,
+  signal?: AbortSignal,
+): Promise<Map<string, ScanEntry>> => {
+  const scanEntries = await createScanner(patterns, options, gitignore);
   const cwd = options.cwd || process.cwd();
+
+  const files = new Map<string, ScanEntry>();
+
+  // Content hashes are read in parallel once all entries are known
+  const withHash = needsContentHash(options);
+  const pendingHashes: Promise<void>[] = [];
+
+  // Process each file entry
+  for await (const scanEntry of scanEntries(signal)) {
+    const { info: fileInfo, stats } = scanEntry;
+    if (withHash && stats?.isFile()) {
+      pendingHashes.push(
+        hashFile(path.resolve(cwd, fileInfo.path)).then((sha1) => {
+          fileInfo.sha1 = sha1;
+        }),
+      );
+    }
+
+    files.set(fileInfo.path, scanEntry);
+  }
+  await Promise.all(pendingHashes);
+  return files;
+};
+
+/**
+ * Same as `scan` but yields every file as soon as fast-glob found it
+ * instead of collecting all of them first (stops with `options.signal`)
+ */
+export async function* scanStream(
+  patterns: string | string[],
+  options: WatchOptions = {},
+): AsyncGenerator<FileInfo, void, undefined> {
+  const scanEntries = await createScanner(patterns, options);
+  const cwd = options.cwd || process.cwd();
+  const withHash = needsContentHash(options);
+  for await (const scanEntry of scanEntries(options.signal)) {
+    const { info: fileInfo, stats } = scanEntry;
+    if (withHash && stats?.isFile()) {
+      fileInfo.sha1 = await hashFile(path.resolve(cwd, fileInfo.path));
+    }
+    yield fileInfo;
+  }
+}
+
+/**
+ * Prepare the fast-glob options for the given patterns and return
+ * a function which streams the entries to report as ScanEntry objects
+ */
+const createScanner = async (
+  patterns: string | string[],
+  options: WatchOptions,
+  gitignore?: Gitignore,
+) => {
+  const fg = (await import("fast-glob")).default;
+  const cwd = options.cwd || process.cwd();
+  if (options.gitignore && !gitignore) {
+    gitignore = await loadGitignore(cwd);
+  }
   const patternArray = Array.isArray(patterns) ? patterns : [patterns];
+  // fast-glob resolves a link with `stat` - links which must not be
+  // followed fail with ENOENT so they are treated like broken links
+  const canFollow = createSymlinkFilter(options);
+  const stat = ((
+    filePath: string,
+    callback: (error: NodeJS.ErrnoException | null, stats?: fs.Stats) => void,
+  ) => {
+    if (canFollow(filePath)) {
+      fs.stat(filePath, callback);
+    } else {
+      callback(
+        Object.assign(new Error(`Not following symbolic link ${filePath}`), {
+          code: "ENOENT",
+        }),
+      );
+    }
+  }) as typeof fs.stat;
 
-  try {
-    // Run fast-glob to find matching files
-    const entries = await fg(patternArray, {
-      cwd,
-      absolute: false,
-      onlyDirectories: options.onlyDirectories || false,
-      // Default to true
-      onlyFiles: options.onlyFiles !== false,
-      dot: options.dot || false,
-      // Get file stats for additional information
-      followSymbolicLinks: false,
-      stats: true,
-      ignore: options.ignore
+  const fgOptions: Options & { stats: true } = {
+    cwd,
+    absolute: false,
+    onlyDirectories: options.onlyDirectories || false,
+    // Files and links are filtered below
+    onlyFiles: false,
+    dot: options.dot || false,
+    followSymbolicLinks: options.followSymbolicLinks || false,
+    fs: { stat },
+    // Get file stats for additional information
+    stats: true,
+    ignore: [
+      ...(options.ignore
         ? Array.isArray(options.ignore)
           ? options.ignore
           : [options.ignore]
-        : [],
-    });
-
-    // Create the changes object to pass to the callback
-    const changes: FileChanges = {
-      added: new Map<string, FileInfo>(),
-      deleted: new Map<string, FileInfo>(),
-      changed: new Map<string, FileInfo>(),
-    };
+        : []),
+      // Skips ignored directories without reading them
+      ...(gitignore?.ignorePatterns ?? []),
+    ],
+  };
 
-    // Process each file entry
-    for (const entry of entries) {
-      let filePath;
-      let stats;
-
-      // Handle different return types from fast-glob based on options
-      if (typeof entry === "string") {
-        filePath = entry;
-        // We don't have stats in this case
-      } else {
-        // Entry is an object with path and stats
-        filePath = entry.path;
-        stats = entry.stats;
-      }
+  // Handle different return types from fast-glob based on options
+  const createEntry = createScanEntryFactory(options, gitignore);
+  const toScanEntry = (entry: string | Entry): ScanEntry | undefined =>
+    typeof entry === "string"
+      ? createEntry(entry)
+      : createEntry(entry.path, entry.stats);
 
-      // Create the file info object
-      const fileInfo: FileInfo = {
-        name: path.basename(filePath),
-        path: options.absolute ? path.resolve(cwd, filePath) : filePath,
-        exists: true,
-      };
-
-      // Add requested fields if available from stats
-      if (stats && options.fields) {
-        if (options.fields.includes("type")) {
-          fileInfo.type = stats.isDirectory() ? "d" : "f";
-        }
-        if (options.fields.includes("size")) {
-          fileInfo.size = stats.size;
-        }
-        if (options.fields.includes("mtime")) {
-          fileInfo.mtime = stats.mtimeMs;
-        }
-        if (options.fields.includes("type") && stats.isSymbolicLink()) {
-          fileInfo.type = "l";
+  return async function* scanEntries(
+    signal?: AbortSignal,
+  ): AsyncGenerator<ScanEntry, void, undefined> {
+    throwIfAborted(signal);
+    const stream = fg.stream(patternArray, fgOptions) as Readable;
+    // Destroying the stream stops fast-glob from reading more directories
+    const onAbort = () => stream.destroy(new AbortError(signal!.reason));
+    signal?.addEventListener("abort", onAbort, { once: true });
+    try {
+      for await (const entry of stream) {
+        const scanEntry = toScanEntry(entry as Entry);
+        if (scanEntry) {
+          yield scanEntry;
         }
       }
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+    }
+  };
+};
+
+/**
+ * Creates the function which turns a path (relative to cwd) and its stats
+ * into the entry a scan reports - undefined for entries which are filtered
+ * out (ignored by git, links or directories depending on the options)
+ * The poll backend uses it for the paths it stats itself
+ */
+export const createScanEntryFactory = (
+  options: WatchOptions,
+  gitignore?: Gitignore,
+) => {
+  const cwd = options.cwd || process.cwd();
+  // Same default as fast-glob: onlyDirectories disables onlyFiles
+  const onlyDirectories = options.onlyDirectories || false;
+  const onlyFiles = !onlyDirectories && options.onlyFiles !== false;
+
+  return (filePath: string, stats?: fs.Stats): ScanEntry | undefined => {
+    // Links which were not followed keep the stats of the link itself
+    if (
+      gitignore?.isIgnored(filePath, stats?.isDirectory() ?? false) ||
+      (stats?.isSymbolicLink()
+        ? !options.reportSymbolicLinks || onlyDirectories
+        : stats?.isDirectory() && onlyFiles)
+    ) {
+      return undefined;
+    }
+
+    // Create the file info object
+    const fileInfo: FileInfo = {
+      name: path.basename(filePath),
+      path: options.absolute ? path.resolve(cwd, filePath) : filePath,
+      exists: true,
+    };
 
-      // Add to the added files list
-      changes.added.set(fileInfo.path, fileInfo);
+    // Add requested fields if available from stats
+    if (stats && options.fields) {
+      if (options.fields.includes("type")) {
+        fileInfo.type = stats.isDirectory() ? "d" : "f";
+      }
+      if (options.fields.includes("size")) {
+        fileInfo.size = stats.size;
+      }
+      if (options.fields.includes("mtime")) {
+        fileInfo.mtime = stats.mtimeMs;
+      }
+      if (options.fields.includes("type") && stats.isSymbolicLink()) {
+        fileInfo.type = "l";
+      }
     }
+    return { info: fileInfo, stats };
+  };
+};
 
-    // Call the callback with our file changes
-    await callback(changes);
-  } catch (error) {
-    console.error("Error in fast-glob scan:", error);
-    throw error;
+/**
+ * Returns the absolute static directory of every positive pattern
+ * e.g. `<cwd>/src` for `src/*.ts` or `<cwd>` for `*.ts`
+ */
+export const getPatternBases = async (
+  patterns: string | string[],
+  cwd: string,
+) => {
+  const { default: micromatch } = await import("micromatch");
+  const patternArray = Array.isArray(patterns) ? patterns : [patterns];
+  const bases = new Set<string>();
+  for (const pattern of patternArray) {
+    const { base, isGlob, negated } = micromatch.scan(pattern);
+    if (negated) {
+      continue;
+    }
+    // A pattern without magic characters is a single file
+    bases.add(path.resolve(cwd, isGlob ? base : path.dirname(base)));
   }
+  return bases;
+};
 
-  // Return a destroy function that does nothing since this is a one-time operation
-  return () => {
-    // No cleanup needed for fast-glob
+/**
+ * Creates matcher functions for paths relative to cwd which apply
+ * the glob patterns, the ignore patterns and the dot option like fast-glob
+ */
+export const createPathMatcher = async (
+  patterns: string | string[],
+  options: WatchOptions,
+  gitignore?: Gitignore,
+) => {
+  const { default: micromatch } = await import("micromatch");
+  const patternArray = Array.isArray(patterns) ? patterns : [patterns];
+  // Negated patterns exclude their matches like ignore patterns (fast-glob)
+  const includePatterns = patternArray.filter(
+    (pattern) => !pattern.startsWith("!"),
+  );
+  const ignore = [
+    ...(options.ignore
+      ? Array.isArray(options.ignore)
+        ? options.ignore
+        : [options.ignore]
+      : []),
+    ...patternArray
+      .filter((pattern) => pattern.startsWith("!"))
+      .map((pattern) => pattern.slice(1)),
+  ];
+  // Precompile matchers for each pattern
+  const includeMatchers = includePatterns.map((pattern) =>
+    micromatch.matcher(pattern.replace(/^\.\//, ""), {
+      dot: options.dot || false,
+    }),
+  );
+  // fast-glob applies ignore patterns to dot files as well
+  const ignoreMatchers = ignore.map((pattern) =>
+    micromatch.matcher(pattern.replace(/^\.\//, ""), { dot: true }),
+  );
+  // Dot directories can only contain matches if a pattern mentions one
+  const skipDotDirectories =
+    !options.dot &&
+    !includePatterns.some((pattern) => /(^|\/)\.[^./]/.test(pattern));
+  return {
+    isMatch: (relativePath: string, isDirectory = false) =>
+      includeMatchers.some((matcher) => matcher(relativePath)) &&
+      !ignoreMatchers.some((matcher) => matcher(relativePath)) &&
+      !gitignore?.isIgnored(relativePath, isDirectory),
+    /** Directories which can't contain any matches and need no watcher */
+    isSkippedDirectory: (relativePath: string) =>
+      (skipDotDirectories && path.basename(relativePath).startsWith(".")) ||
+      ignoreMatchers.some((matcher) => matcher(relativePath)) ||
+      Boolean(gitignore?.isIgnored(relativePath, true)),
   };
 };
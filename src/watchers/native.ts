@@ -1,13 +1,40 @@
 import {
   WatchCallback,
   WatchOptions,
-  DestroyFunction,
+  ActiveWatcher,
   FileChanges,
   FileInfo,
 } from "../types.ts";
 import path from "node:path";
 import fs from "node:fs";
-import { watch as fastGlobWatch } from "./fast-glob.ts";
+import { createPathMatcher, getPatternBases, scan } from "./fast-glob.ts";
+import { DEFAULT_POLL_INTERVAL } from "./poll.ts";
+import { createFileChanges, hasChanges, mergeFileChanges } from "../changes.ts";
+import { getSignature, hashFile, needsContentHash } from "../hash.ts";
+import { isInside } from "../paths.ts";
+import {
+  reportError,
+  toWatchError,
+  WatchLimitExceededError,
+} from "../errors.ts";
+import { createSymlinkFilter } from "../symlinks.ts";
+import { isGitignoreFile, loadGitignore } from "../gitignore.ts";
+
+/**
+ * How long a deletion is held back to find out if it is part of a rename
+ */
+const RENAME_WINDOW_MS = 50;
+
+/**
+ * How long to wait for more events before a changed .gitignore is read
+ */
+const GITIGNORE_RELOAD_DELAY_MS = 50;
+
+/**
+ * Modification times lag behind Date.now() as file systems round them and
+ * the kernel uses a coarse clock
+ */
+const MTIME_TOLERANCE_MS = 20;
 
 /**
  * Watch for file changes using Node.js native fs.watch API
@@ -17,82 +44,445 @@ export async function watch(
   patterns: string | string[],
   callback: WatchCallback,
   options: WatchOptions = {},
-): Promise<DestroyFunction> {
+): Promise<ActiveWatcher> {
   // State variables (captured in closure)
-  const watchers = new Set<fs.FSWatcher>();
   const fileInfoMap = new Map<string, FileInfo>();
-  const watchDirs = new Set<string>();
+  const watchDirs = new Map<string, fs.FSWatcher>();
+  // One watcher for each pattern base and everything below (`recursiveWatch`)
+  const recursiveWatchers = new Map<string, fs.FSWatcher>();
+  // Paths Node.js watches one by one for a recursive watcher where the
+  // platform can't watch recursively (`getMetrics`)
+  const emulatedWatches = new WeakMap<fs.FSWatcher, Set<string>>();
+  // Watchers for the parents of pattern base directories which don't exist yet
+  const pendingBaseWatchers = new Map<string, fs.FSWatcher>();
   const cwd = options.cwd || process.cwd();
 
-  // Create ignore matcher
-  const ignoreMatcher = await createIgnoreMatcher(options.ignore);
+  // Device and inode of tracked files to detect renames (`renames` option)
+  const identities = new Map<string, string>();
+  const pathsByIdentity = new Map<string, string>();
+  const pendingDeletions = new Map<
+    string,
+    { filePath: string; fileInfo: FileInfo; timer: NodeJS.Timeout }
+  >();
 
-  // Get initial file list using fast-glob
-  const initialScan = await new Promise<FileChanges>((resolve) => {
-    // Create a temporary callback that captures the initial file list
-    const tempCallback = (changes: FileChanges) => {
-      resolve(changes);
-    };
-
-    // Use fast-glob watcher to get initial file list
-    fastGlobWatch(patterns, tempCallback, options);
-  });
+  // Fail early (before the initial scan) if fs.watch is not supported here
+  fs.watch(cwd).close();
+
+  let patternList = Array.isArray(patterns) ? patterns : [patterns];
+  // Pattern and .gitignore updates are applied one after another
+  let updates = Promise.resolve();
+  let gitignore = options.gitignore ? await loadGitignore(cwd) : undefined;
+  // Watchers for the directories of .gitignore files outside the watched ones
+  const gitignoreWatchers = new Map<string, fs.FSWatcher>();
+  let gitignoreReloadTimer: NodeJS.Timeout | undefined;
+  // .gitignore files which changed since the last reload
+  const changedGitignoreFiles = new Set<string>();
+
+  // Create matcher that applies the same rules as the initial scan
+  let { isMatch, isSkippedDirectory } = await createPathMatcher(
+    patternList,
+    options,
+    gitignore,
+  );
+  // Same default as fast-glob: onlyDirectories disables onlyFiles
+  const onlyDirectories = options.onlyDirectories || false;
+  const onlyFiles = !onlyDirectories && options.onlyFiles !== false;
+  const withHash = needsContentHash(options);
+  const canFollow = createSymlinkFilter(options);
+  // Recursive watchers don't look into linked directories
+  let useRecursive =
+    (options.recursiveWatch ?? supportsRecursiveWatch()) &&
+    !options.followSymbolicLinks;
+  // File system events since the start (`getMetrics`)
+  let eventCount = 0;
+  // Directory trees which are polled after fs.watch hit the system limit,
+  // with the `mtime:size` of every entry from the previous poll
+  const polledDirs = new Map<string, Map<string, string>>();
+  let isWatchLimitReached = false;
+  let pollTimer: NodeJS.Timeout | undefined;
+  // `mtime:size` of files found by rescans of new directories - their
+  // watcher events may still arrive and are no changes
+  const rescannedSignatures = new Map<string, string>();
+  // Content hashes which are still being read for the files of changes
+  // and checks which need them (`sha1` and `contentChangesOnly`)
+  const pendingHashes = new WeakMap<
+    FileChanges,
+    { hashes: Promise<void>[]; checks: Array<() => void> }
+  >();
+  // Events which arrive during the initial scan by path - they are
+  // reconciled with its result once it is done
+  let startupEvents: Map<string, string> | undefined = new Map();
+
+  // Watch the static base directory of every pattern (e.g. `src` for
+  // `src/**/*.ts`) so that empty or missing directories are covered too
+  // Watchers are attached before the scan so that no change gets lost
+  const scanStartedAt = Date.now() - MTIME_TOLERANCE_MS;
+  let basePaths = await getPatternBases(patternList, cwd);
+  for (const basePath of basePaths) {
+    watchPatternBase(basePath);
+  }
 
-  // Store initial files in our map
-  for (const [filePath, fileInfo] of initialScan.added) {
+  // Get initial file list using fast-glob
+  const initialScan = createFileChanges();
+  let scannedFiles: Map<string, FileInfo>;
+  try {
+    scannedFiles = await scan(patternList, options, gitignore, options.signal);
+  } catch (error) {
+    destroy();
+    throw error;
+  }
+  for (const [filePath, fileInfo] of scannedFiles) {
+    // Store initial files in our map
     fileInfoMap.set(filePath, fileInfo);
+    initialScan.added.set(filePath, fileInfo);
+    trackInitialIdentity(filePath);
   }
+  const events = startupEvents;
+  startupEvents = undefined;
+  const startupChanges = reconcileStartupEvents(events);
+  await resolveHashes(startupChanges);
+  mergeFileChanges(initialScan, startupChanges);
+  // Files renamed during the scan are reported as added at the new path
+  delete initialScan.renamed;
 
   // Call callback with initial files
   await callback(initialScan);
+  watchGitignoreDirectories();
+
+  /**
+   * Pass changes to the callback - with content hashes they are delivered
+   * in order once the hashes of their files were read
+   */
+  function report(changes: FileChanges): void {
+    if (!withHash) {
+      callback(changes);
+      return;
+    }
+    updates = updates.then(async () => {
+      await resolveHashes(changes);
+      if (hasChanges(changes)) {
+        callback(changes);
+      }
+    });
+  }
 
-  // Extract directories from file paths
-  const watchDirectories = new Set<string>();
-  for (const filePath of fileInfoMap.keys()) {
-    const absPath = options.absolute ? filePath : path.resolve(cwd, filePath);
-    const dirPath = path.dirname(absPath);
-    watchDirectories.add(dirPath);
+  /**
+   * The content hashes which are read for changes before they are reported
+   */
+  function getPendingHashes(changes: FileChanges) {
+    let pending = pendingHashes.get(changes);
+    if (!pending) {
+      pending = { hashes: [], checks: [] };
+      pendingHashes.set(changes, pending);
+    }
+    return pending;
   }
 
-  // Create directory watchers
-  for (const dirPath of watchDirectories) {
-    try {
-      setupDirectoryWatcher(dirPath);
-    } catch (error) {
-      console.error(`Error watching directory ${dirPath}:`, error);
+  /**
+   * Wait for the content hashes of changes and apply the checks
+   * which need them
+   */
+  async function resolveHashes(changes: FileChanges): Promise<void> {
+    const pending = pendingHashes.get(changes);
+    if (!pending) {
+      return;
+    }
+    pendingHashes.delete(changes);
+    await Promise.all(pending.hashes);
+    for (const check of pending.checks) {
+      check();
     }
   }
 
   /**
-   * Handle file change events
+   * Handle the events which arrived during the initial scan
+   * Entries which were not modified since the scan started are skipped -
+   * the scan saw them in their current state
    */
-  function handleFileChange(filePath: string, eventType: string): void {
-    const absolutePath = path.resolve(cwd, filePath);
+  function reconcileStartupEvents(events: Map<string, string>): FileChanges {
+    const changes = createFileChanges(options.renames);
+    for (const [filePath, eventType] of events) {
+      const stats = fileInfoMap.has(filePath)
+        ? getStats(path.resolve(cwd, filePath))
+        : undefined;
+      if (stats && stats.mtimeMs < scanStartedAt) {
+        continue;
+      }
+      handleFileChange(filePath, eventType, changes);
+    }
+    return changes;
+  }
 
-    // Skip hidden files if dot option is not enabled
-    if (!options.dot && path.basename(filePath).startsWith(".")) {
+  /**
+   * Replace the watched patterns
+   */
+  function setPatterns(nextPatterns: string[]): Promise<void> {
+    const update = updates.then(() => applyPatterns(nextPatterns));
+    updates = update.catch(() => {});
+    return update;
+  }
+
+  /**
+   * Read a changed .gitignore file again and apply the new rules
+   * like a pattern change
+   */
+  function scheduleGitignoreReload(filePath: string): void {
+    changedGitignoreFiles.add(filePath);
+    // Saving a file often causes several events
+    clearTimeout(gitignoreReloadTimer);
+    gitignoreReloadTimer = setTimeout(() => {
+      const filePaths = [...changedGitignoreFiles];
+      changedGitignoreFiles.clear();
+      updates = updates
+        .then(async () => {
+          gitignore = await gitignore!.reload(filePaths);
+          await applyPatterns(patternList);
+          watchGitignoreDirectories();
+        })
+        .catch((error) =>
+          reportError(
+            toWatchError("Failed to apply the changed .gitignore files", {
+              backend: "native",
+              path: cwd,
+              cause: error,
+            }),
+            options,
+          ),
+        );
+    }, GITIGNORE_RELOAD_DELAY_MS);
+  }
+
+  /**
+   * Watch cwd and the directories of all .gitignore files for changes
+   * of .gitignore files - independent of the watched patterns
+   */
+  function watchGitignoreDirectories(): void {
+    if (!gitignore) {
       return;
     }
+    const dirPaths = new Set([cwd]);
+    for (const filePath of gitignore.files) {
+      if (isGitignoreFile(filePath) && isInside(filePath, cwd)) {
+        dirPaths.add(path.dirname(filePath));
+      }
+    }
+    for (const [dirPath, watcher] of gitignoreWatchers) {
+      if (!dirPaths.has(dirPath)) {
+        watcher.close();
+        gitignoreWatchers.delete(dirPath);
+      }
+    }
+    for (const dirPath of dirPaths) {
+      if (gitignoreWatchers.has(dirPath)) {
+        continue;
+      }
+      try {
+        const watcher = fs.watch(dirPath, (eventType, filename) => {
+          if (filename && isGitignoreFile(filename)) {
+            scheduleGitignoreReload(path.join(dirPath, filename));
+          }
+        });
+        watcher.on("error", () => {
+          watcher.close();
+          gitignoreWatchers.delete(dirPath);
+        });
+        gitignoreWatchers.set(dirPath, watcher);
+      } catch (error) {
+        reportError(
+          toWatchError(`Failed to watch directory ${dirPath}`, {
+            backend: "native",
+            path: dirPath,
+            cause: error,
+          }),
+          options,
+        );
+      }
+    }
+  }
 
-    // Skip ignored files
-    if (ignoreMatcher(filePath)) {
+  /**
+   * Attach or detach directory watchers and report files which start
+   * or stop matching
+   */
+  async function applyPatterns(nextPatterns: string[]): Promise<void> {
+    patternList = nextPatterns;
+    ({ isMatch, isSkippedDirectory } = await createPathMatcher(
+      patternList,
+      options,
+      gitignore,
+    ));
+    const nextFiles = await scan(patternList, options, gitignore);
+    const nextBasePaths = await getPatternBases(patternList, cwd);
+
+    // Detach watchers which are no longer below any pattern base
+    for (const [basePath, watcher] of recursiveWatchers) {
+      if (!nextBasePaths.has(basePath)) {
+        watcher.close();
+        recursiveWatchers.delete(basePath);
+      }
+    }
+    for (const [dirPath, watcher] of watchDirs) {
+      const isNeeded =
+        nextBasePaths.has(dirPath) ||
+        ([...nextBasePaths].some((basePath) => isInside(dirPath, basePath)) &&
+          !isSkippedDirectory(path.relative(cwd, dirPath)));
+      if (!isNeeded) {
+        watcher.close();
+        watchDirs.delete(dirPath);
+      }
+    }
+    for (const [basePath, watcher] of pendingBaseWatchers) {
+      if (!nextBasePaths.has(basePath)) {
+        watcher.close();
+        pendingBaseWatchers.delete(basePath);
+      }
+    }
+    for (const dirPath of [...polledDirs.keys()]) {
+      const isNeeded = [...nextBasePaths].some(
+        (basePath) => dirPath === basePath || isInside(dirPath, basePath),
+      );
+      if (!isNeeded) {
+        polledDirs.delete(dirPath);
+      }
+    }
+    basePaths = nextBasePaths;
+    for (const basePath of basePaths) {
+      watchPatternBase(basePath);
+    }
+    // Directories which are no longer skipped below watched ones
+    for (const dirPath of [...watchDirs.keys()]) {
+      if (isDirectory(dirPath)) {
+        watchSubdirectories(dirPath);
+      }
+    }
+
+    // Diff the tracked files against the new scan
+    const changes = createFileChanges(options.renames);
+    for (const [filePath, fileInfo] of fileInfoMap) {
+      if (!nextFiles.has(filePath)) {
+        fileInfoMap.delete(filePath);
+        untrackIdentity(filePath);
+        changes.deleted.set(filePath, fileInfo);
+      }
+    }
+    for (const [filePath, fileInfo] of nextFiles) {
+      if (!fileInfoMap.has(filePath)) {
+        fileInfoMap.set(filePath, fileInfo);
+        trackInitialIdentity(filePath);
+        changes.added.set(filePath, fileInfo);
+      }
+    }
+    if (hasChanges(changes)) {
+      await callback(changes);
+    }
+  }
+
+  /**
+   * Remember the device and inode of a file found by a scan
+   */
+  function trackInitialIdentity(filePath: string): void {
+    if (!options.renames) {
       return;
     }
+    try {
+      trackIdentity(filePath, fs.statSync(path.resolve(cwd, filePath)));
+    } catch {
+      // The file is gone already - the watcher will report it
+    }
+  }
 
-    const changes: FileChanges = {
-      added: new Map<string, FileInfo>(),
-      deleted: new Map<string, FileInfo>(),
-      changed: new Map<string, FileInfo>(),
-    };
+  /**
+   * Watch a pattern base directory or wait for it to be created
+   */
+  function watchPatternBase(basePath: string): void {
+    if (pendingBaseWatchers.has(basePath)) {
+      return;
+    }
+    if (isDirectory(basePath)) {
+      if (useRecursive) {
+        setupRecursiveWatcher(basePath);
+      } else {
+        setupDirectoryWatcher(basePath);
+      }
+      return;
+    }
+
+    // Watch the closest existing parent until the next path segment
+    // towards the base directory shows up
+    let parentPath = path.dirname(basePath);
+    while (
+      !isDirectory(parentPath) &&
+      parentPath !== path.dirname(parentPath)
+    ) {
+      parentPath = path.dirname(parentPath);
+    }
+    const nextPath = path.join(
+      parentPath,
+      path.relative(parentPath, basePath).split(path.sep)[0],
+    );
+
+    try {
+      const watcher = fs.watch(parentPath, { recursive: false }, () => {
+        if (!isDirectory(nextPath)) {
+          return;
+        }
+        watcher.close();
+        pendingBaseWatchers.delete(basePath);
+        watchPatternBase(basePath);
+        // Files may have been written before the watcher was attached
+        if (isDirectory(basePath)) {
+          const changes = createFileChanges(options.renames);
+          rescanDirectory(basePath, changes);
+          if (hasChanges(changes)) {
+            report(changes);
+          }
+        }
+      });
+      pendingBaseWatchers.set(basePath, watcher);
+    } catch (error) {
+      reportError(
+        toWatchError(`Failed to watch directory ${parentPath}`, {
+          backend: "native",
+          path: parentPath,
+          cause: error,
+        }),
+        options,
+      );
+    }
+  }
+
+  /**
+   * Handle file change events
+   *
+   * @param pending Collect the changes here instead of reporting them
+   *                (used while a directory is rescanned)
+   */
+  function handleFileChange(
+    filePath: string,
+    eventType: string,
+    pending?: FileChanges,
+  ): void {
+    if (!pending) {
+      eventCount++;
+    }
+    if (startupEvents) {
+      startupEvents.set(filePath, eventType);
+      return;
+    }
+    const absolutePath = path.resolve(cwd, filePath);
+    if (gitignore && isGitignoreFile(filePath)) {
+      scheduleGitignoreReload(absolutePath);
+    }
+
+    const changes = pending ?? createFileChanges(options.renames);
 
     try {
-      // Check if file exists
-      const exists = fs.existsSync(absolutePath);
       const isNewFile = !fileInfoMap.has(filePath);
-      const stats = exists && fs.statSync(absolutePath);
+      const stats = getStats(absolutePath);
 
       if (stats) {
         const isDir = stats.isDirectory();
+        const isLink = stats.isSymbolicLink();
         // Create file info
         const fileInfo: FileInfo = {
           name: path.basename(filePath),
@@ -101,19 +491,40 @@ export async function watch(
         };
 
         // If it's a directory, watch it too
-        if (isDir && !watchDirs.has(filePath)) {
-          setupDirectoryWatcher(filePath);
+        if (
+          isDir &&
+          !useRecursive &&
+          !watchDirs.has(absolutePath) &&
+          !isPolled(absolutePath) &&
+          !isSkippedDirectory(path.relative(cwd, absolutePath))
+        ) {
+          setupDirectoryWatcher(absolutePath);
+        }
+        // A created or moved in directory may contain files already
+        if (
+          isDir &&
+          eventType === "rename" &&
+          !isPolled(absolutePath) &&
+          !isSkippedDirectory(path.relative(cwd, absolutePath))
+        ) {
+          rescanDirectory(absolutePath, changes);
         }
 
-        if (isDir && options.onlyFiles) {
-          // Skip directories if onlyFiles option is enabled
+        // Skip entries which are not part of the watched set
+        if (
+          !isMatch(path.relative(cwd, absolutePath), isDir) ||
+          (isDir ? onlyFiles : onlyDirectories)
+        ) {
+          if (!pending && hasChanges(changes)) {
+            report(changes);
+          }
           return;
         }
 
         // Add requested fields
         if (options.fields) {
           if (options.fields.includes("type")) {
-            fileInfo.type = isDir ? "d" : "f";
+            fileInfo.type = isLink ? "l" : isDir ? "d" : "f";
           }
           if (options.fields.includes("size")) {
             fileInfo.size = stats.size;
@@ -122,34 +533,399 @@ export async function watch(
             fileInfo.mtime = stats.mtimeMs;
           }
         }
+        if (withHash && stats.isFile()) {
+          getPendingHashes(changes).hashes.push(
+            hashFile(absolutePath).then((sha1) => {
+              fileInfo.sha1 = sha1;
+            }),
+          );
+        }
 
-        if (isNewFile) {
+        // A held back deletion of the same path turns into a change
+        const isReplaced = isNewFile && cancelPendingDeletion(filePath);
+        const renamedFrom =
+          isNewFile && !isReplaced && findRenameSource(filePath, stats);
+        if (renamedFrom) {
+          // Moved from another tracked path
+          fileInfoMap.set(filePath, fileInfo);
+          changes.renamed!.set(filePath, { from: renamedFrom, info: fileInfo });
+          if (pending) {
+            rescannedSignatures.set(filePath, getSignature(stats));
+          }
+        } else if (isNewFile && !isReplaced) {
           // New file
           fileInfoMap.set(filePath, fileInfo);
           changes.added.set(filePath, fileInfo);
-        } else {
-          // Changed file
+          if (pending) {
+            rescannedSignatures.set(filePath, getSignature(stats));
+          }
+        } else if (rescannedSignatures.get(filePath) !== getSignature(stats)) {
+          // Changed file (late events for a rescanned file are skipped)
+          rescannedSignatures.delete(filePath);
+          const previousInfo = fileInfoMap.get(filePath);
           fileInfoMap.set(filePath, fileInfo);
           changes.changed.set(filePath, fileInfo);
+          // Skip changes which only touched the metadata - earlier
+          // changes of the file are hashed before
+          if (options.contentChangesOnly) {
+            getPendingHashes(changes).checks.push(() => {
+              if (
+                previousInfo?.sha1 !== undefined &&
+                previousInfo.sha1 === fileInfo.sha1 &&
+                changes.changed.get(filePath) === fileInfo
+              ) {
+                changes.changed.delete(filePath);
+              }
+            });
+          }
+        }
+        if (options.renames) {
+          trackIdentity(filePath, stats);
+        }
+      } else {
+        if (!isNewFile) {
+          deleteFile(filePath, changes);
+        }
+        // A removed or moved away directory takes its entries along
+        // (tracked entries are only directories with onlyDirectories)
+        if (isNewFile || onlyDirectories) {
+          removeDirectory(absolutePath, changes);
         }
-      } else if (!isNewFile) {
-        // File was deleted
-        const fileInfo = fileInfoMap.get(filePath)!;
-        fileInfoMap.delete(filePath);
-        changes.deleted.set(filePath, fileInfo);
       }
 
       // Notify callback if there are changes
+      if (!pending && hasChanges(changes)) {
+        report(changes);
+      }
+    } catch (error) {
+      reportError(
+        toWatchError(`Error handling file change for ${filePath}`, {
+          backend: "native",
+          path: absolutePath,
+          cause: error,
+        }),
+        options,
+      );
+    }
+  }
+
+  /**
+   * Stop tracking a deleted file and report it
+   */
+  function deleteFile(filePath: string, changes: FileChanges): void {
+    const fileInfo = fileInfoMap.get(filePath)!;
+    fileInfoMap.delete(filePath);
+    rescannedSignatures.delete(filePath);
+    const identity = untrackIdentity(filePath);
+    if (identity) {
+      // Hold the deletion back as it might be the first half of a rename
+      const timer = setTimeout(() => {
+        pendingDeletions.delete(identity);
+        const deletion = createFileChanges(true);
+        deletion.deleted.set(filePath, fileInfo);
+        report(deletion);
+      }, RENAME_WINDOW_MS);
+      pendingDeletions.set(identity, { filePath, fileInfo, timer });
+    } else {
+      changes.deleted.set(filePath, fileInfo);
+    }
+  }
+
+  /**
+   * Report every tracked entry below a removed or moved away directory
+   * as deleted and release the watchers of the directory tree
+   */
+  function removeDirectory(dirPath: string, changes: FileChanges): void {
+    const isInTree = (entryPath: string) =>
+      entryPath === dirPath || isInside(entryPath, dirPath);
+    for (const watchers of [watchDirs, recursiveWatchers]) {
+      for (const [watchedPath, watcher] of watchers) {
+        if (isInTree(watchedPath)) {
+          watcher.close();
+          watchers.delete(watchedPath);
+        }
+      }
+    }
+    for (const polledPath of [...polledDirs.keys()]) {
+      if (isInTree(polledPath)) {
+        polledDirs.delete(polledPath);
+      }
+    }
+    for (const filePath of [...fileInfoMap.keys()]) {
+      if (isInside(path.resolve(cwd, filePath), dirPath)) {
+        deleteFile(filePath, changes);
+      }
+    }
+    // Pattern bases wait for the directory to be created again
+    for (const basePath of basePaths) {
+      if (isInTree(basePath)) {
+        watchPatternBase(basePath);
+      }
+    }
+  }
+
+  /**
+   * Report the entries of a directory which was created or moved in -
+   * they may have been written before its watcher was attached
+   */
+  function rescanDirectory(dirPath: string, changes: FileChanges): void {
+    let entries: string[];
+    try {
+      entries = fs.readdirSync(dirPath);
+    } catch {
+      // Gone again - its watcher reports the removal
+      return;
+    }
+    for (const entry of entries) {
+      const filePath = toFilePath(path.join(dirPath, entry));
+      if (!fileInfoMap.has(filePath)) {
+        handleFileChange(filePath, "rename", changes);
+      }
+    }
+  }
+
+  /**
+   * The absolute path of a watcher event - an event for the watched
+   * directory itself is named like the directory
+   */
+  function getEventPath(dirPath: string, filename: string): string {
+    if (filename === path.basename(dirPath) && !isDirectory(dirPath)) {
+      return dirPath;
+    }
+    return path.join(dirPath, filename);
+  }
+
+  /**
+   * Get the stats of an entry the same way the initial scan sees it:
+   * followed links have the stats of their target, other links are only
+   * visible with `reportSymbolicLinks`
+   */
+  function getStats(absolutePath: string): fs.Stats | undefined {
+    let stats: fs.Stats;
+    try {
+      stats = fs.lstatSync(absolutePath);
+    } catch {
+      return undefined;
+    }
+    if (!stats.isSymbolicLink()) {
+      return stats;
+    }
+    if (canFollow(absolutePath)) {
+      return fs.statSync(absolutePath);
+    }
+    return options.reportSymbolicLinks ? stats : undefined;
+  }
+
+  /**
+   * Remember the device and inode of a tracked file
+   */
+  function trackIdentity(filePath: string, stats: fs.Stats): void {
+    untrackIdentity(filePath);
+    const identity = getIdentity(stats);
+    if (identity) {
+      identities.set(filePath, identity);
+      pathsByIdentity.set(identity, filePath);
+    }
+  }
+
+  /**
+   * Forget the device and inode of a file and return them
+   */
+  function untrackIdentity(filePath: string): string | undefined {
+    const identity = identities.get(filePath);
+    if (identity) {
+      identities.delete(filePath);
+      if (pathsByIdentity.get(identity) === filePath) {
+        pathsByIdentity.delete(identity);
+      }
+    }
+    return identity;
+  }
+
+  /**
+   * Cancel a held back deletion of the given path
+   */
+  function cancelPendingDeletion(filePath: string): boolean {
+    for (const [identity, pending] of pendingDeletions) {
+      if (pending.filePath === filePath) {
+        clearTimeout(pending.timer);
+        pendingDeletions.delete(identity);
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Find the previous path of a file which was moved to `filePath`
+   * The deletion event of the old path may arrive before or after this one
+   */
+  function findRenameSource(
+    filePath: string,
+    stats: fs.Stats,
+  ): string | undefined {
+    const identity = options.renames && getIdentity(stats);
+    if (!identity) {
+      return undefined;
+    }
+    const pending = pendingDeletions.get(identity);
+    if (pending) {
+      clearTimeout(pending.timer);
+      pendingDeletions.delete(identity);
+      return pending.filePath;
+    }
+    const previousPath = pathsByIdentity.get(identity);
+    if (
+      !previousPath ||
+      previousPath === filePath ||
+      fs.existsSync(path.resolve(cwd, previousPath))
+    ) {
+      return undefined;
+    }
+    // The deletion event for the old path will find nothing to report
+    fileInfoMap.delete(previousPath);
+    untrackIdentity(previousPath);
+    return previousPath;
+  }
+
+  /**
+   * Watch a pattern base and everything below it with a single watcher
+   * Falls back to one watcher per directory if the platform has no
+   * recursive fs.watch
+   */
+  function setupRecursiveWatcher(basePath: string): void {
+    // Nested pattern bases are covered by the watcher of their parent
+    for (const watchedPath of recursiveWatchers.keys()) {
+      if (watchedPath === basePath || isInside(basePath, watchedPath)) {
+        return;
+      }
+    }
+    if (isWatchLimitReached) {
+      startPolling(basePath);
+      return;
+    }
+
+    let watcher: fs.FSWatcher;
+    try {
+      watcher = fs.watch(
+        basePath,
+        { recursive: true },
+        (eventType, filename) => {
+          if (!filename) return;
+
+          const fullPath = getEventPath(basePath, filename);
+          trackEmulatedWatches(watcher, fullPath);
+          // The recursive watcher also sees directories without matches
+          if (!isInSkippedDirectory(fullPath, basePath)) {
+            handleFileChange(toFilePath(fullPath), eventType);
+          }
+          // Removing the base itself ends the watcher without an event for
+          // every entry below it
+          if (recursiveWatchers.get(basePath) === watcher) {
+            removeRecursiveBase(basePath);
+          }
+        },
+      );
+    } catch (error) {
       if (
-        changes.added.size > 0 ||
-        changes.changed.size > 0 ||
-        changes.deleted.size > 0
+        (error as NodeJS.ErrnoException).code ===
+        "ERR_FEATURE_UNAVAILABLE_ON_PLATFORM"
       ) {
-        callback(changes);
+        useRecursive = false;
+        setupDirectoryWatcher(basePath);
+        return;
+      }
+      reportWatchFailure(
+        `Failed to watch directory ${basePath}`,
+        basePath,
+        error,
+      );
+      return;
+    }
+
+    // The new watcher replaces the watchers of nested pattern bases
+    for (const [watchedPath, nestedWatcher] of recursiveWatchers) {
+      if (isInside(watchedPath, basePath)) {
+        nestedWatcher.close();
+        recursiveWatchers.delete(watchedPath);
+      }
+    }
+    recursiveWatchers.set(basePath, watcher);
+    if (!supportsRecursiveWatch()) {
+      emulatedWatches.set(watcher, new Set(listTree(basePath)));
+    }
+    watcher.on("error", (error) => {
+      if (recursiveWatchers.get(basePath) !== watcher) {
+        return;
+      }
+      if (removeRecursiveBase(basePath)) {
+        return;
+      }
+      watcher.close();
+      recursiveWatchers.delete(basePath);
+      reportWatchFailure(
+        `Stopped watching directory ${basePath}`,
+        basePath,
+        error,
+      );
+    });
+  }
+
+  /**
+   * Follow the paths Node.js adds and removes watches for as entries
+   * below an emulated recursive watcher come and go
+   */
+  function trackEmulatedWatches(watcher: fs.FSWatcher, fullPath: string): void {
+    const watchedPaths = emulatedWatches.get(watcher);
+    if (!watchedPaths) {
+      return;
+    }
+    if (fs.existsSync(fullPath)) {
+      if (!watchedPaths.has(fullPath)) {
+        for (const entryPath of listTree(fullPath)) {
+          watchedPaths.add(entryPath);
+        }
+      }
+    } else if (watchedPaths.delete(fullPath)) {
+      for (const watchedPath of watchedPaths) {
+        if (isInside(watchedPath, fullPath)) {
+          watchedPaths.delete(watchedPath);
+        }
+      }
+    }
+  }
+
+  /**
+   * Report the entries of a recursively watched base which is gone and
+   * wait for it to be created again
+   */
+  function removeRecursiveBase(basePath: string): boolean {
+    if (isDirectory(basePath)) {
+      return false;
+    }
+    const changes = createFileChanges(options.renames);
+    removeDirectory(basePath, changes);
+    if (hasChanges(changes)) {
+      report(changes);
+    }
+    return true;
+  }
+
+  /**
+   * Check if a path below a recursively watched base is inside of
+   * a directory which can't contain any matches
+   */
+  function isInSkippedDirectory(fullPath: string, basePath: string): boolean {
+    for (
+      let dirPath = path.dirname(fullPath);
+      isInside(dirPath, basePath);
+      dirPath = path.dirname(dirPath)
+    ) {
+      if (isSkippedDirectory(path.relative(cwd, dirPath))) {
+        return true;
       }
-    } catch (error) {
-      console.error(`Error handling file change for ${filePath}:`, error);
     }
+    return false;
   }
 
   /**
@@ -160,6 +936,10 @@ export async function watch(
     if (watchDirs.has(dirPath)) {
       return;
     }
+    if (isWatchLimitReached) {
+      startPolling(dirPath);
+      return;
+    }
 
     try {
       const watcher = fs.watch(
@@ -168,25 +948,181 @@ export async function watch(
         (eventType, filename) => {
           if (!filename) return;
 
-          const fullPath = path.join(dirPath, filename);
-          const filePath = options.absolute
-            ? fullPath
-            : path.relative(cwd, fullPath);
-
-          handleFileChange(filePath, eventType);
+          handleFileChange(
+            toFilePath(getEventPath(dirPath, filename)),
+            eventType,
+          );
         },
       );
 
-      watchers.add(watcher);
-      watchDirs.add(dirPath);
+      watchDirs.set(dirPath, watcher);
+      watcher.on("error", (error) => {
+        watcher.close();
+        watchDirs.delete(dirPath);
+        reportWatchFailure(
+          `Stopped watching directory ${dirPath}`,
+          dirPath,
+          error,
+        );
+      });
 
       // Also watch subdirectories if they exist
       watchSubdirectories(dirPath);
     } catch (error) {
-      console.error(`Failed to watch directory ${dirPath}:`, error);
+      reportWatchFailure(
+        `Failed to watch directory ${dirPath}`,
+        dirPath,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Report a directory which could not be watched - once the system limit
+   * for watchers or open files is reached, its tree is polled instead
+   */
+  function reportWatchFailure(
+    message: string,
+    dirPath: string,
+    error: unknown,
+  ): void {
+    const watchError = toWatchError(message, {
+      backend: "native",
+      path: dirPath,
+      cause: error,
+    });
+    if (!(watchError instanceof WatchLimitExceededError)) {
+      reportError(watchError, options);
+      return;
+    }
+    startPolling(dirPath);
+    // Warn once - all further directories are polled right away
+    if (isWatchLimitReached) {
+      return;
+    }
+    isWatchLimitReached = true;
+    const { limit } = watchError;
+    const values = limit?.current
+      ? ` (current: ${limit.current}, suggested: ${limit.suggested})`
+      : "";
+    reportError(
+      new WatchLimitExceededError(
+        `Reached the ${limit?.name ?? "watcher"} limit${values}, ` +
+          `polling ${dirPath} instead`,
+        { backend: "native", path: dirPath, cause: error },
+      ),
+      options,
+    );
+  }
+
+  /**
+   * Poll a directory tree instead of watching it
+   */
+  function startPolling(dirPath: string): void {
+    if (isPolled(dirPath)) {
+      return;
+    }
+    // The new tree replaces polled trees and watchers below it
+    for (const polledPath of [...polledDirs.keys()]) {
+      if (isInside(polledPath, dirPath)) {
+        polledDirs.delete(polledPath);
+      }
+    }
+    for (const [watchedPath, watcher] of watchDirs) {
+      if (watchedPath === dirPath || isInside(watchedPath, dirPath)) {
+        watcher.close();
+        watchDirs.delete(watchedPath);
+      }
+    }
+    polledDirs.set(dirPath, readSignatures(dirPath));
+    schedulePoll();
+  }
+
+  /**
+   * Check if a directory is part of a polled tree
+   */
+  function isPolled(dirPath: string): boolean {
+    for (const polledPath of polledDirs.keys()) {
+      if (polledPath === dirPath || isInside(dirPath, polledPath)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Poll the polled trees again after the poll interval
+   */
+  function schedulePoll(): void {
+    if (pollTimer || polledDirs.size === 0) {
+      return;
+    }
+    pollTimer = setTimeout(() => {
+      pollTimer = undefined;
+      pollDirectories();
+      schedulePoll();
+    }, options.pollInterval ?? DEFAULT_POLL_INTERVAL);
+  }
+
+  /**
+   * Compare the polled trees with the previous poll and handle every
+   * added, changed or deleted entry like a watcher event
+   */
+  function pollDirectories(): void {
+    for (const [dirPath, previous] of polledDirs) {
+      const next = readSignatures(dirPath);
+      polledDirs.set(dirPath, next);
+      for (const [entryPath, signature] of next) {
+        if (previous.get(entryPath) !== signature) {
+          handleFileChange(toFilePath(entryPath), "change");
+        }
+      }
+      for (const entryPath of previous.keys()) {
+        if (!next.has(entryPath)) {
+          handleFileChange(toFilePath(entryPath), "rename");
+        }
+      }
     }
   }
 
+  /**
+   * Read the `mtime:size` of every entry below a polled directory
+   */
+  function readSignatures(
+    dirPath: string,
+    signatures = new Map<string, string>(),
+  ): Map<string, string> {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dirPath, { withFileTypes: true });
+    } catch {
+      // Gone - its entries show up as deleted
+      return signatures;
+    }
+    for (const entry of entries) {
+      const entryPath = path.join(dirPath, entry.name);
+      const stats = getStats(entryPath);
+      if (!stats) {
+        continue;
+      }
+      signatures.set(entryPath, getSignature(stats));
+      if (
+        stats.isDirectory() &&
+        !isSkippedDirectory(path.relative(cwd, entryPath))
+      ) {
+        readSignatures(entryPath, signatures);
+      }
+    }
+    return signatures;
+  }
+
+  /**
+   * The path of an entry as it is reported to the callback
+   */
+  function toFilePath(fullPath: string): string {
+    return options.absolute ? fullPath : path.relative(cwd, fullPath);
+  }
+
   /**
    * Watch subdirectories recursively
    */
@@ -195,14 +1131,26 @@ export async function watch(
       const entries = fs.readdirSync(dirPath, { withFileTypes: true });
 
       for (const entry of entries) {
-        if (entry.isDirectory() && !entry.isSymbolicLink()) {
-          // Only watch non-symlink directories
-          const subDirPath = path.join(dirPath, entry.name);
+        const subDirPath = path.join(dirPath, entry.name);
+        // Linked directories are only watched if the link is followed
+        const isDir =
+          entry.isDirectory() ||
+          (entry.isSymbolicLink() &&
+            canFollow(subDirPath) &&
+            isDirectory(subDirPath));
+        if (isDir && !isSkippedDirectory(path.relative(cwd, subDirPath))) {
           setupDirectoryWatcher(subDirPath);
         }
       }
     } catch (error) {
-      console.error(`Error reading directory ${dirPath}:`, error);
+      reportError(
+        toWatchError(`Error reading directory ${dirPath}`, {
+          backend: "native",
+          path: dirPath,
+          cause: error,
+        }),
+        options,
+      );
     }
   }
 
@@ -210,29 +1158,95 @@ export async function watch(
    * Clean up all watchers
    */
   function destroy(): void {
-    for (const watcher of watchers) {
+    for (const watcher of [
+      ...recursiveWatchers.values(),
+      ...watchDirs.values(),
+      ...pendingBaseWatchers.values(),
+      ...gitignoreWatchers.values(),
+    ]) {
       watcher.close();
     }
-    watchers.clear();
     watchDirs.clear();
+    recursiveWatchers.clear();
+    pendingBaseWatchers.clear();
+    gitignoreWatchers.clear();
+    clearTimeout(gitignoreReloadTimer);
+    clearTimeout(pollTimer);
+    polledDirs.clear();
+    rescannedSignatures.clear();
     fileInfoMap.clear();
+    for (const { timer } of pendingDeletions.values()) {
+      clearTimeout(timer);
+    }
+    pendingDeletions.clear();
+    identities.clear();
+    pathsByIdentity.clear();
   }
 
   // Return destroy function
-  return destroy;
+  return Object.assign(destroy, {
+    setPatterns,
+    getWatchedFiles: () => new Map(fileInfoMap),
+    getMetrics: () => ({
+      handles:
+        [...recursiveWatchers.values()].reduce(
+          (count, watcher) => count + (emulatedWatches.get(watcher)?.size ?? 1),
+          0,
+        ) +
+        watchDirs.size +
+        pendingBaseWatchers.size +
+        gitignoreWatchers.size,
+      events: eventCount,
+      recursive: recursiveWatchers.size > 0,
+      polled: polledDirs.size,
+    }),
+  });
+}
+
+/**
+ * Returns a key which identifies a file across renames (device and inode)
+ */
+function getIdentity(stats: fs.Stats): string | undefined {
+  // Some file systems don't provide inode numbers
+  return stats.ino ? `${stats.dev}:${stats.ino}` : undefined;
+}
+
+/**
+ * fs.watch watches recursively with a single OS handle on macOS and Windows -
+ * on Linux Node.js emulates it with a watch for every file and directory
+ */
+function supportsRecursiveWatch(): boolean {
+  return process.platform === "darwin" || process.platform === "win32";
+}
+
+/**
+ * List a path and, for a directory, every entry below it (ignored ones
+ * included) - like the watches Node.js adds for an emulated recursive watcher
+ */
+function listTree(entryPath: string): string[] {
+  const paths = [entryPath];
+  try {
+    for (const entry of fs.readdirSync(entryPath, { withFileTypes: true })) {
+      const childPath = path.join(entryPath, entry.name);
+      if (entry.isDirectory()) {
+        paths.push(...listTree(childPath));
+      } else {
+        paths.push(childPath);
+      }
+    }
+  } catch {
+    // A file or removed in the meantime
+  }
+  return paths;
 }
 
 /**
- * Creates a matcher function for ignore patterns
+ * Check if the given path is an existing directory
  */
-async function createIgnoreMatcher(ignore?: string | string[]) {
-  if (!ignore) {
-    return () => false;
-  }
-  const micromatch = await import("micromatch");
-  const patterns = Array.isArray(ignore) ? ignore : [ignore];
-  // Precompile matchers for each pattern
-  const matchers = patterns.map((pattern) => micromatch.matcher(pattern));
-  // Create a single matcher function that checks all patterns
-  return (filePath: string) => matchers.some((matcher) => matcher(filePath));
+function isDirectory(dirPath: string): boolean {
+  try {
+    return fs.statSync(dirPath).isDirectory();
+  } catch {
+    return false;
+  }
 }
@@ -0,0 +1,448 @@
+import {
+  WatchCallback,
+  WatchOptions,
+  ActiveWatcher,
+  FileInfo,
+} from "../types.ts";
+import path from "node:path";
+import fs from "node:fs";
+import {
+  createPathMatcher,
+  createScanEntryFactory,
+  getPatternBases,
+  scanWithStats,
+  ScanEntry,
+} from "./fast-glob.ts";
+import { getSignature, hashFile, needsContentHash } from "../hash.ts";
+import { countChanges, createFileChanges, hasChanges } from "../changes.ts";
+import { reportError, toWatchError } from "../errors.ts";
+import { createSymlinkFilter } from "../symlinks.ts";
+import { isGitignoreFile, loadGitignore } from "../gitignore.ts";
+import { isInside } from "../paths.ts";
+
+/**
+ * The default time between two polls in milliseconds
+ */
+export const DEFAULT_POLL_INTERVAL = 1000;
+
+/**
+ * What we remember about a file between two polls
+ */
+interface PolledFile {
+  info: FileInfo;
+  /** Changes whenever the file is written (mtime and size) */
+  signature: string;
+  /** dev:ino - used to pair deletions and additions into renames */
+  identity?: string;
+}
+
+/**
+ * Periodically stats the known files and directories and compares the
+ * stats - only directories whose modification time changed are read
+ * again to find new entries. Works where file system events are not
+ * delivered, e.g. on network file systems (NFS, SMB) or bind mounts
+ * inside containers.
+ */
+export const watch = async (
+  patterns: string | string[],
+  callback: WatchCallback,
+  options: WatchOptions = {},
+): Promise<ActiveWatcher> => {
+  const cwd = options.cwd || process.cwd();
+  const interval = options.pollInterval ?? DEFAULT_POLL_INTERVAL;
+  const withHash = needsContentHash(options);
+  // Hashes are only computed for new or modified files, not on every poll
+  const scanOptions: WatchOptions = {
+    ...options,
+    contentChangesOnly: false,
+    fields: options.fields?.filter((field) => field !== "sha1"),
+  };
+  const canFollow = createSymlinkFilter(options);
+
+  let patternList = Array.isArray(patterns) ? patterns : [patterns];
+  let isDestroyed = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  // Changed paths found since the start (`getMetrics`)
+  let eventCount = 0;
+  // Polls from the timer and from setPatterns run one after another
+  let polling = Promise.resolve();
+
+  // Loaded once - changed .gitignore files are read again
+  let gitignore = options.gitignore ? await loadGitignore(cwd) : undefined;
+  // `mtime:size` of the .gitignore files from the previous poll
+  let gitignoreSignatures = new Map<string, string>();
+  // Apply the same rules as fast-glob to the paths found by polls
+  let { isMatch, isSkippedDirectory } = await createPathMatcher(
+    patternList,
+    options,
+    gitignore,
+  );
+  let createEntry = createScanEntryFactory(scanOptions, gitignore);
+  let basePaths = await getPatternBases(patternList, cwd);
+  // `mtime:size` of the pattern bases and all directories below them
+  // which may contain matches - empty for missing pattern bases
+  const directories = new Map<string, string>();
+
+  /**
+   * Get the stats of an entry like fast-glob: followed links have the
+   * stats of their target, other links the stats of the link itself
+   */
+  const getStats = async (
+    absolutePath: string,
+  ): Promise<fs.Stats | undefined> => {
+    try {
+      const stats = await fs.promises.lstat(absolutePath);
+      return stats.isSymbolicLink() && canFollow(absolutePath)
+        ? await fs.promises.stat(absolutePath)
+        : stats;
+    } catch {
+      return undefined;
+    }
+  };
+
+  /**
+   * Remember the signature of a directory and list its entries -
+   * directories which are not known yet are read right away
+   * Returns the absolute paths of all listed entries
+   */
+  const readDirectory = async (
+    dirPath: string,
+    found: string[] = [],
+  ): Promise<string[]> => {
+    // Taken before listing so that later changes show up in the next poll
+    directories.set(dirPath, getSignature(await getStats(dirPath)));
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(dirPath, { withFileTypes: true });
+    } catch {
+      // Missing - the signature changes once it is created
+      return found;
+    }
+    for (const entry of entries) {
+      const entryPath = path.join(dirPath, entry.name);
+      found.push(entryPath);
+      const isDir =
+        entry.isDirectory() ||
+        (entry.isSymbolicLink() &&
+          Boolean((await getStats(entryPath))?.isDirectory()));
+      if (
+        isDir &&
+        !directories.has(entryPath) &&
+        !isSkippedDirectory(path.relative(cwd, entryPath))
+      ) {
+        await readDirectory(entryPath, found);
+      }
+    }
+    return found;
+  };
+
+  /**
+   * Stat the known directories and list the changed ones again
+   * Returns the absolute paths of their entries
+   */
+  const readChangedDirectories = async (): Promise<string[]> => {
+    const dirPaths = [...directories.keys()];
+    const signatures = await Promise.all(
+      dirPaths.map(async (dirPath) => getSignature(await getStats(dirPath))),
+    );
+    const found: string[] = [];
+    for (const [index, dirPath] of dirPaths.entries()) {
+      if (signatures[index] === directories.get(dirPath)) {
+        continue;
+      }
+      if (signatures[index] === "" && !basePaths.has(dirPath)) {
+        // Removed - its files are missing as well
+        directories.delete(dirPath);
+      } else {
+        await readDirectory(dirPath, found);
+      }
+    }
+    return found;
+  };
+
+  /**
+   * Stat the known files and the entries of changed directories and
+   * return the ones which match
+   */
+  const readEntries = async (
+    found: string[],
+  ): Promise<Map<string, ScanEntry>> => {
+    const candidates = new Set(
+      Array.from(files.keys(), (filePath) => path.resolve(cwd, filePath)),
+    );
+    for (const entryPath of found) {
+      candidates.add(entryPath);
+    }
+    const entryPaths = [...candidates];
+    const stats = await Promise.all(entryPaths.map(getStats));
+    const entries = new Map<string, ScanEntry>();
+    for (const [index, entryPath] of entryPaths.entries()) {
+      const relativePath = path.relative(cwd, entryPath);
+      const entryStats = stats[index];
+      if (!entryStats || !isMatch(relativePath, entryStats.isDirectory())) {
+        continue;
+      }
+      const entry = createEntry(relativePath, entryStats);
+      if (entry) {
+        entries.set(entry.info.path, entry);
+      }
+    }
+    return entries;
+  };
+
+  /**
+   * Read the `mtime:size` of the loaded .gitignore files and of the one
+   * in cwd, which may be created later
+   */
+  const readGitignoreSignatures = async (): Promise<Map<string, string>> => {
+    if (!gitignore) {
+      return new Map();
+    }
+    const filePaths = new Set([
+      ...gitignore.files,
+      path.join(cwd, ".gitignore"),
+    ]);
+    return new Map(
+      await Promise.all(
+        Array.from(filePaths, async (filePath): Promise<[string, string]> => [
+          filePath,
+          getSignature(await getStats(filePath)),
+        ]),
+      ),
+    );
+  };
+
+  /**
+   * Find the .gitignore files which were written, removed or created in
+   * one of the changed directories since the previous poll
+   */
+  const findChangedGitignoreFiles = async (
+    found: string[],
+  ): Promise<string[]> => {
+    if (!gitignore) {
+      return [];
+    }
+    const signatures = await readGitignoreSignatures();
+    const changedFiles = [...signatures.keys()].filter(
+      (filePath) =>
+        gitignoreSignatures.get(filePath) !== signatures.get(filePath),
+    );
+    for (const entryPath of found) {
+      if (
+        isGitignoreFile(entryPath) &&
+        isInside(entryPath, cwd) &&
+        !signatures.has(entryPath)
+      ) {
+        changedFiles.push(entryPath);
+      }
+    }
+    return changedFiles;
+  };
+
+  /**
+   * Create the matchers for the current patterns and .gitignore rules,
+   * read all directories again and scan the patterns with fast-glob
+   */
+  const scanAll = async (
+    signal?: AbortSignal,
+  ): Promise<Map<string, ScanEntry>> => {
+    ({ isMatch, isSkippedDirectory } = await createPathMatcher(
+      patternList,
+      options,
+      gitignore,
+    ));
+    createEntry = createScanEntryFactory(scanOptions, gitignore);
+    basePaths = await getPatternBases(patternList, cwd);
+    gitignoreSignatures = await readGitignoreSignatures();
+    // Directories are read before the scan so that no new entry gets lost
+    directories.clear();
+    for (const basePath of basePaths) {
+      await readDirectory(basePath);
+    }
+    return scanWithStats(patternList, scanOptions, gitignore, signal);
+  };
+
+  const toPolledFile = async (entry: ScanEntry): Promise<PolledFile> => {
+    const { info, stats } = entry;
+    if (withHash && !stats?.isDirectory()) {
+      info.sha1 = await hashFile(path.resolve(cwd, info.path));
+    }
+    return {
+      info,
+      signature: getSignature(stats),
+      identity: stats ? `${stats.dev}:${stats.ino}` : undefined,
+    };
+  };
+
+  // The initial scan rejects the watch call if it fails
+  let files = new Map(
+    await Promise.all(
+      Array.from(
+        await scanAll(options.signal),
+        async ([filePath, entry]): Promise<[string, PolledFile]> => [
+          filePath,
+          await toPolledFile(entry),
+        ],
+      ),
+    ),
+  );
+
+  const changes = createFileChanges();
+  for (const [filePath, file] of files) {
+    changes.added.set(filePath, file.info);
+  }
+  await callback(changes);
+
+  /**
+   * Find the changes since the previous poll and report them - `rescan`
+   * scans everything again (new patterns)
+   */
+  const poll = async (rescan = false): Promise<void> => {
+    const found = rescan ? undefined : await readChangedDirectories();
+    const changedGitignoreFiles = found
+      ? await findChangedGitignoreFiles(found)
+      : [];
+    if (changedGitignoreFiles.length > 0) {
+      gitignore = await gitignore!.reload(changedGitignoreFiles);
+    }
+    const entries =
+      found && changedGitignoreFiles.length === 0
+        ? await readEntries(found)
+        : await scanAll();
+    if (isDestroyed) {
+      return;
+    }
+
+    const nextFiles = new Map<string, PolledFile>();
+    const changes = createFileChanges(options.renames);
+    const added: PolledFile[] = [];
+
+    // New and modified files are hashed in parallel
+    const polledEntries = [...entries];
+    const modifiedFiles = await Promise.all(
+      polledEntries.map(([filePath, entry]) =>
+        files.get(filePath)?.signature === getSignature(entry.stats)
+          ? undefined
+          : toPolledFile(entry),
+      ),
+    );
+    for (const [index, [filePath, entry]] of polledEntries.entries()) {
+      const previous = files.get(filePath);
+      const file = modifiedFiles[index];
+      if (!file) {
+        // Unchanged - keep the hash of the previous poll
+        entry.info.sha1 = previous!.info.sha1;
+        nextFiles.set(filePath, { ...previous!, info: entry.info });
+        continue;
+      }
+
+      nextFiles.set(filePath, file);
+      if (!previous) {
+        added.push(file);
+      } else if (
+        !options.contentChangesOnly ||
+        previous.info.sha1 !== file.info.sha1
+      ) {
+        changes.changed.set(filePath, file.info);
+      }
+    }
+
+    // Files which disappeared, by identity to find renames
+    const deletedByIdentity = new Map<string, PolledFile>();
+    for (const [filePath, file] of files) {
+      if (nextFiles.has(filePath)) {
+        continue;
+      }
+      if (options.renames && file.identity) {
+        deletedByIdentity.set(file.identity, file);
+      } else {
+        changes.deleted.set(filePath, file.info);
+      }
+    }
+
+    for (const file of added) {
+      const source = file.identity && deletedByIdentity.get(file.identity);
+      if (source) {
+        deletedByIdentity.delete(file.identity!);
+        changes.renamed!.set(file.info.path, {
+          from: source.info.path,
+          info: file.info,
+        });
+      } else {
+        changes.added.set(file.info.path, file.info);
+      }
+    }
+    for (const file of deletedByIdentity.values()) {
+      changes.deleted.set(file.info.path, file.info);
+    }
+
+    files = nextFiles;
+    if (hasChanges(changes)) {
+      eventCount += countChanges(changes);
+      await callback(changes);
+    }
+  };
+
+  const runPoll = (rescan?: boolean): Promise<void> => {
+    const run = polling.then(() => poll(rescan));
+    polling = run.catch(() => {});
+    return run;
+  };
+
+  /**
+   * Run the next poll once the previous one (and its callback) finished
+   * so that slow polls never overlap
+   */
+  const schedule = (): void => {
+    if (isDestroyed) {
+      return;
+    }
+    timer = setTimeout(() => {
+      runPoll()
+        .catch((error) =>
+          reportError(
+            toWatchError("Polling failed", {
+              backend: "poll",
+              path: cwd,
+              cause: error,
+            }),
+            options,
+          ),
+        )
+        .finally(schedule);
+    }, interval);
+  };
+  schedule();
+
+  /**
+   * Scan the new patterns right away instead of waiting for the next interval
+   */
+  const setPatterns = async (nextPatterns: string[]): Promise<void> => {
+    patternList = nextPatterns;
+    await runPoll(true);
+  };
+
+  return Object.assign(
+    () => {
+      isDestroyed = true;
+      clearTimeout(timer);
+    },
+    {
+      setPatterns,
+      getWatchedFiles: () =>
+        new Map(
+          Array.from(files, ([filePath, file]): [string, FileInfo] => [
+            filePath,
+            file.info,
+          ]),
+        ),
+      // Polling holds no handles - every detected change counts as an event
+      getMetrics: () => ({
+        handles: 0,
+        events: eventCount,
+        recursive: false,
+        polled: 0,
+      }),
+    },
+  );
+};
@@ -0,0 +1,306 @@
+import type { Client, SubscriptionResponse } from "fb-watchman";
+import {
+  SubscriptionFailedError,
+  WatchmanUnavailableError,
+} from "../errors.ts";
+
+/**
+ * A user's handle on the shared watchman connection of a watch root
+ */
+export interface WatchmanConnection {
+  client: Client;
+  /** The watch root which contains cwd */
+  root: string;
+  /**
+   * Route the responses of a subscription to a handler
+   * (the subscribe command itself is sent by the caller)
+   */
+  addSubscription(
+    name: string,
+    handler: (resp: SubscriptionResponse) => void,
+  ): void;
+  /** Unsubscribe and stop routing the responses */
+  removeSubscription(name: string): void;
+  /**
+   * Get notified when the connection is lost - all subscriptions of the
+   * connection are gone and have to be created again on a new one
+   */
+  onDisconnect(handler: (error?: Error) => void): void;
+  /**
+   * Remove all subscriptions and handlers of this user -
+   * the last user closes the connection
+   */
+  release(): void;
+}
+
+/**
+ * A connection shared by all watchers and queries of one watch root
+ */
+interface PoolEntry {
+  root: string;
+  client: Client;
+  /** Subscription handlers of all users by subscription name */
+  subscriptions: Map<string, (resp: SubscriptionResponse) => void>;
+  disconnectHandlers: Set<(error?: Error) => void>;
+  users: number;
+  /** The connection was lost - commands would open a new socket */
+  isLost: boolean;
+  /** Remove the pool's listeners from the client and the entry from the pool */
+  detach: () => void;
+}
+
+/**
+ * Open connections by watch root
+ */
+const pool = new Map<string, PoolEntry>();
+
+/**
+ * The watch root of directories which were watched before
+ * (forgotten when the connection of the root is closed)
+ */
+const roots = new Map<string, string>();
+
+/**
+ * New connections which are still being set up by cwd
+ */
+const connecting = new Map<string, Promise<PoolEntry>>();
+
+/**
+ * Get a connection for the watch root of `cwd`
+ * A new connection is only opened if the root has none yet - concurrent
+ * calls wait for the same new connection
+ *
+ * Throws if fb-watchman is missing or the daemon is not reachable
+ */
+export const acquireConnection = async (
+  cwd: string,
+): Promise<WatchmanConnection> => {
+  const knownRoot = roots.get(cwd);
+  let entry = knownRoot ? pool.get(knownRoot) : undefined;
+  if (!entry) {
+    let connection = connecting.get(cwd);
+    if (!connection) {
+      connection = connect(cwd).finally(() => connecting.delete(cwd));
+      connecting.set(cwd, connection);
+    }
+    entry = await connection;
+    if (pool.get(entry.root) !== entry) {
+      // Closed or lost while this call was waiting
+      return acquireConnection(cwd);
+    }
+  }
+  return createConnection(entry);
+};
+
+/**
+ * Open a connection for the watch root of `cwd` unless another call
+ * connected to the same root in the meantime
+ */
+const connect = async (cwd: string): Promise<PoolEntry> => {
+  // The watch root of a new directory needs a watch-project command
+  const client = await createWatchmanClient();
+  let root: string;
+  try {
+    root = await watchProject(client, cwd);
+  } catch (error) {
+    client.end();
+    throw error;
+  }
+  let entry = pool.get(root);
+  if (entry) {
+    client.end();
+  } else {
+    entry = createEntry(root, client);
+  }
+  roots.set(cwd, root);
+  return entry;
+};
+
+/**
+ * Add a connection to the pool and dispatch its events to the users
+ */
+const createEntry = (root: string, client: Client): PoolEntry => {
+  const entry: PoolEntry = {
+    root,
+    client,
+    subscriptions: new Map(),
+    disconnectHandlers: new Set(),
+    users: 0,
+    isLost: false,
+    detach: () => {
+      client.removeListener("subscription", onSubscription);
+      client.removeListener("error", onDisconnect);
+      client.removeListener("end", onDisconnect);
+      removeEntry(entry);
+    },
+  };
+  const onSubscription = (resp: SubscriptionResponse) => {
+    entry.subscriptions.get(resp.subscription)?.(resp);
+  };
+  // Socket errors and a closed socket (e.g. a restarted daemon) end the
+  // connection - a lost connection is never reused
+  const onDisconnect = (error?: Error) => {
+    entry.isLost = true;
+    entry.detach();
+    client.end();
+    for (const handler of entry.disconnectHandlers) {
+      handler(error);
+    }
+  };
+  client.on("subscription", onSubscription);
+  client.on("error", onDisconnect);
+  client.on("end", onDisconnect);
+  pool.set(root, entry);
+  return entry;
+};
+
+/**
+ * Remove a connection from the pool - it is not handed out anymore
+ */
+const removeEntry = (entry: PoolEntry): void => {
+  if (pool.get(entry.root) !== entry) {
+    return;
+  }
+  pool.delete(entry.root);
+  for (const [dirPath, root] of roots) {
+    if (root === entry.root) {
+      roots.delete(dirPath);
+    }
+  }
+};
+
+/**
+ * Hand out a connection and track what the user added to it
+ */
+const createConnection = (entry: PoolEntry): WatchmanConnection => {
+  const { client, root } = entry;
+  const subscriptionNames = new Set<string>();
+  const disconnectHandlers = new Set<(error?: Error) => void>();
+  let isReleased = false;
+  entry.users++;
+
+  const removeSubscription = (name: string) => {
+    if (!subscriptionNames.delete(name)) {
+      return;
+    }
+    entry.subscriptions.delete(name);
+    if (entry.isLost) {
+      return;
+    }
+    client.command(["unsubscribe", root, name], () => {
+      // Responses for an unknown subscription are ignored anyway
+    });
+  };
+
+  return {
+    client,
+    root,
+    addSubscription: (name, handler) => {
+      subscriptionNames.add(name);
+      entry.subscriptions.set(name, handler);
+    },
+    removeSubscription,
+    onDisconnect: (handler) => {
+      disconnectHandlers.add(handler);
+      entry.disconnectHandlers.add(handler);
+    },
+    release: () => {
+      if (isReleased) {
+        return;
+      }
+      isReleased = true;
+      for (const handler of disconnectHandlers) {
+        entry.disconnectHandlers.delete(handler);
+      }
+      entry.users--;
+      if (entry.users > 0) {
+        for (const name of subscriptionNames) {
+          removeSubscription(name);
+        }
+        return;
+      }
+      // Closing the connection ends all of its subscriptions
+      entry.detach();
+      if (!entry.isLost) {
+        client.end();
+      }
+    },
+  };
+};
+
+/**
+ * Ask watchman to watch the project which contains `cwd`
+ */
+const watchProject = (client: Client, cwd: string): Promise<string> =>
+  new Promise<string>((resolve, reject) => {
+    client.command(["watch-project", cwd], (error, resp) => {
+      if (error) {
+        reject(
+          new SubscriptionFailedError(`Failed to watch project ${cwd}`, {
+            backend: "watchman",
+            path: cwd,
+            cause: error,
+          }),
+        );
+        return;
+      }
+      resolve(resp.watch);
+    });
+  });
+
+/**
+ * Create a Watchman client and verify its capabilities
+ */
+async function createWatchmanClient(): Promise<Client> {
+  // Import fb-watchman dynamically to handle the case when it's not installed
+  let watchman: typeof import("fb-watchman") | undefined;
+  try {
+    watchman = (await import("fb-watchman")).default;
+  } catch {
+    // Handled below
+  }
+  if (!watchman) {
+    throw new WatchmanUnavailableError("fb-watchman is not installed", {
+      backend: "watchman",
+    });
+  }
+  const client = new watchman.Client();
+  return new Promise<Client>((resolve, reject) => {
+    // Ending the client fails the pending capability check a second time
+    // with "The client was ended" - only the first error is the cause
+    let isSettled = false;
+    const errorHandler = (error: Error) => {
+      if (isSettled) {
+        return;
+      }
+      isSettled = true;
+      client.removeListener("error", errorHandler);
+      client.removeListener("connect", connectHandler);
+      reject(
+        new WatchmanUnavailableError(
+          `Watchman is not available: ${error.message}`,
+          { backend: "watchman", cause: error },
+        ),
+      );
+      client.end();
+    };
+
+    const connectHandler = () => {
+      client.removeListener("error", errorHandler);
+      client.removeListener("connect", connectHandler);
+      resolve(client);
+    };
+
+    client.on("error", errorHandler);
+    client.on("connect", connectHandler);
+
+    client.capabilityCheck(
+      { optional: [], required: ["relative_root"] },
+      (error: Error | null) => {
+        if (error) {
+          errorHandler(error);
+        }
+      },
+    );
+  });
+}
@@ -1,278 +1,1050 @@
 import {
   WatchCallback,
   WatchOptions,
-  DestroyFunction,
-  FileChanges,
+  ActiveWatcher,
   FileInfo,
+  WatchmanState,
 } from "../types.ts";
 import path from "node:path";
 import type {
   Client,
+  CommandCallback,
   Expression,
   FileChange,
   SubscriptionConfig,
   SubscriptionResponse,
 } from "fb-watchman";
-import { logError } from "../errors.ts";
+import { createFileChanges, hasChanges } from "../changes.ts";
+import { needsContentHash } from "../hash.ts";
+import { loadGitignore } from "../gitignore.ts";
+import {
+  AbortError,
+  reportError,
+  SubscriptionFailedError,
+  WatchError,
+  WatchmanUnavailableError,
+} from "../errors.ts";
+import { raceAbort, throwIfAborted } from "../abort.ts";
+import { acquireConnection, type WatchmanConnection } from "./watchman-pool.ts";
+
+/**
+ * The file fields glob-watch requests from watchman
+ * (fb-watchman's typings only cover a subset)
+ */
+export type WatchmanFile = FileChange & {
+  ino?: number;
+  dev?: number;
+  // An error object is returned for directories and unreadable files
+  "content.sha1hex"?: string | { error: string };
+};
 
+/**
+ * A subscription response with the fields fb-watchman's typings miss
+ */
+type WatchmanResponse = SubscriptionResponse & {
+  files: WatchmanFile[];
+  clock?: string;
+  /** All files are listed, not only the changed ones */
+  is_fresh_instance?: boolean;
+  /** State notifications carry no files */
+  "state-enter"?: string;
+  "state-leave"?: string;
+  metadata?: unknown;
+  abandoned?: boolean;
+};
+
+/**
+ * Reconnect attempts after the connection to the daemon was lost
+ */
+const DEFAULT_RECONNECT_ATTEMPTS = 10;
+/**
+ * Wait time before the second attempt - doubled for every further attempt
+ */
+const DEFAULT_RECONNECT_DELAY_MS = 100;
+const MAX_RECONNECT_DELAY_MS = 5000;
+
+/**
+ * Watch for file changes using the watchman daemon
+ * Throws if fb-watchman is missing or the daemon is not reachable
+ */
 export const watch = async (
   patterns: string | string[],
   callback: WatchCallback,
   options: WatchOptions = {},
-): Promise<DestroyFunction> => {
-  let client: Client;
+): Promise<ActiveWatcher> => {
+  // Throws if watchman is not usable - the caller decides about the fallback
+  assertSupported(options);
+  const connection = await acquireConnection(options.cwd || process.cwd());
   try {
-    client = await createWatchmanClient();
+    return await subscribe(connection, patterns, callback, options);
   } catch (error) {
-    logError("Failed to create Watchman client", error);
-    // Fall back to native watcher
-    const { watch } = await import("./native.ts");
-    return watch(patterns, callback, options);
+    connection.release();
+    throw error;
   }
+};
 
+/**
+ * Subscribe to the given patterns on a pooled connection
+ * A lost connection is replaced by a new one (see `reconnectAttempts`)
+ */
+const subscribe = async (
+  initialConnection: WatchmanConnection,
+  patterns: string | string[],
+  callback: WatchCallback,
+  options: WatchOptions,
+): Promise<ActiveWatcher> => {
+  let connection = initialConnection;
   const cwd = options.cwd || process.cwd();
   const patternArray = Array.isArray(patterns) ? patterns : [patterns];
 
   // Track existing files
   const existingFiles = new Map<string, FileInfo>();
+  // Device and inode of existing files to detect renames (`renames` option)
+  const identities = new Map<string, string>();
+  // Size and modification time of existing files - tell which files
+  // changed when watchman lists all files again
+  const signatures = new Map<string, string>();
 
-  // Get the watch root
-  const watchProjectRoot = await new Promise<string>((resolve, reject) => {
-    client.command(["watch-project", cwd], (error, resp) => {
-      if (error) {
-        reject(error);
-        return;
+  // Remember the device and inode of a file (only requested with `renames`)
+  const trackIdentity = (filePath: string, file: WatchmanFile) => {
+    if (file.ino) {
+      identities.set(filePath, `${file.dev}:${file.ino}`);
+    }
+  };
+
+  const requestFields = [
+    ...new Set([...getRequestFields(options), "size", "mtime_ms"]),
+  ];
+
+  // Rules of the .gitignore files (`gitignore` option) - reloaded on changes
+  let gitignore = options.gitignore ? await loadGitignore(cwd) : undefined;
+  const isGitignored = (file: WatchmanFile) =>
+    Boolean(gitignore?.isIgnored(file.name, file.type === "d"));
+  let currentPatterns = patternArray;
+  // Pattern and .gitignore updates and reconnects are applied one after another
+  let updates = Promise.resolve();
+  // Reports changes of .gitignore files
+  const gitignoreSubscriptionName =
+    "glob-watch-gitignore-" + Math.random().toString(36).substring(2, 15);
+  let isGitignoreInitialRun = true;
+
+  // The active subscription - replaced when the patterns change
+  let subscriptionName = "";
+  // The patterns of the active subscription
+  let subscribedPatterns = patternArray;
+  // The clock of the latest response - changes after it are queried on reconnect
+  let lastClock: string | undefined;
+  // Settle the initial file list of a new subscription
+  let resolveInitialRun: ((resp: WatchmanResponse) => void) | undefined;
+  let rejectInitialRun: ((error: Error) => void) | undefined;
+
+  let isConnected = true;
+  let isDestroyed = false;
+  let reconnectTimer: NodeJS.Timeout | undefined;
+  // The native backend which took over (`fallbackOnDisconnect` option)
+  let replacement: ActiveWatcher | undefined;
+  // Changed files listed by watchman since the start (`getMetrics`)
+  let eventCount = 0;
+
+  /**
+   * Subscribe to the given patterns and wait for the initial file list
+   * With `since` only the files changed after that clock are listed
+   */
+  const startSubscription = async (
+    patternList: string[],
+    since?: string,
+  ): Promise<WatchmanResponse> => {
+    const { client, root } = connection;
+    subscriptionName =
+      "glob-watch-" + Math.random().toString(36).substring(2, 15);
+    connection.addSubscription(subscriptionName, handleSubscription);
+    const initialRun = new Promise<WatchmanResponse>((resolve, reject) => {
+      resolveInitialRun = resolve;
+      rejectInitialRun = reject;
+    });
+    // Avoid an unhandled rejection if the subscribe command fails first
+    initialRun.catch(() => {});
+    await new Promise<void>((resolve, reject) => {
+      client.command(
+        [
+          "subscribe",
+          root,
+          subscriptionName,
+          {
+            expression: createExpression(
+              patternList,
+              options,
+              gitignore?.ignorePatterns,
+            ),
+            fields: requestFields as (keyof FileChange)[],
+            relative_root: path.relative(root, cwd),
+            ...getStateSettings(options),
+            ...(since ? { since } : {}),
+          } satisfies SubscriptionConfig & StateSettings & { since?: string },
+        ],
+        (error) => {
+          if (error) {
+            resolveInitialRun = undefined;
+            rejectInitialRun = undefined;
+            connection.removeSubscription(subscriptionName);
+            reject(
+              new SubscriptionFailedError(
+                `Failed to subscribe to ${patternList.join(", ")}`,
+                { backend: "watchman", path: cwd, cause: error },
+              ),
+            );
+            return;
+          }
+          resolve();
+        },
+      );
+    });
+    const resp = await initialRun;
+    subscribedPatterns = patternList;
+    return resp;
+  };
+
+  /**
+   * Get the existing files of a complete file list
+   */
+  const collectFiles = (resp: WatchmanResponse) => {
+    const files = new Map<string, FileInfo>();
+    const fileSignatures = new Map<string, string>();
+    resp.files.forEach((file) => {
+      if (file.exists !== false && !isGitignored(file)) {
+        const fileInfo = createFileInfo(file, cwd, options);
+        files.set(fileInfo.path, fileInfo);
+        fileSignatures.set(fileInfo.path, getSignature(file));
+        trackIdentity(fileInfo.path, file);
       }
-      resolve(resp.watch);
     });
-  });
+    return { files, signatures: fileSignatures };
+  };
 
-  // Helper function to create a file info object
-  const createFileInfo = (file: FileChange, rootPath: string): FileInfo => {
-    const relativePath = file.name;
-    const info: FileInfo = {
-      name: path.basename(relativePath),
-      path: options.absolute
-        ? path.resolve(rootPath, relativePath)
-        : relativePath,
-    };
-    if ("exists" in file) {
-      info.exists = file.exists;
+  // The change handler of the pattern subscriptions
+  const handleSubscription = (subscriptionResp: SubscriptionResponse) => {
+    const resp = subscriptionResp as WatchmanResponse;
+    if (resp.subscription !== subscriptionName) {
+      return;
     }
-    if ("type" in file) {
-      info.type = file.type;
+    lastClock = resp.clock ?? lastClock;
+    if (notifyState(resp, options)) {
+      return;
     }
-
-    // Add requested fields
-    if (options.fields) {
-      if (options.fields.includes("size") && "size" in file) {
-        info.size = file.size;
-      }
-      if (options.fields.includes("mtime") && "mtime_ms" in file) {
-        info.mtime =
-          typeof file.mtime_ms === "number" ? file.mtime_ms : undefined;
-      }
+    if (resolveInitialRun) {
+      resolveInitialRun(resp);
+      resolveInitialRun = undefined;
+      rejectInitialRun = undefined;
+      return;
     }
-
-    return info;
+    eventCount += resp.files.length;
+    // Watchman lists all files after it lost track of changes (e.g. a recrawl)
+    if (resp.is_fresh_instance) {
+      const { files, signatures: fileSignatures } = collectFiles(resp);
+      void reconcile(files, fileSignatures);
+      return;
+    }
+    processChanges(resp.files);
   };
 
-  // Setup subscription
-  const subscriptionName =
-    "glob-watch-" + Math.random().toString(36).substring(2, 15);
-
-  // Create file filters based on options
-  const fileFilters: Expression[] = [];
+  /**
+   * Report the changes of an incremental file list
+   */
+  const processChanges = (files: WatchmanFile[]) => {
+    const changes = createFileChanges(options.renames);
+    // Identities of files deleted in this batch
+    const deletedIdentities = new Map<string, string>();
 
-  // Only files or only directories filter
-  if (options.onlyDirectories) {
-    fileFilters.push(["type", "d"]);
-  } else if (options.onlyFiles) {
-    fileFilters.push(["type", "f"]);
-  }
-
-  // Process patterns into watchman expressions
-  const matchExpressions = patternArray.map(
-    (pattern): Expression =>
-      [
-        "match",
-        pattern,
-        "wholename",
-        { includedotfiles: options.dot },
-      ] as const as any,
-  );
+    // Process each file change
+    files.forEach((file) => {
+      const fileInfo = createFileInfo(file, cwd, options);
+      const fileExists = file.exists !== false;
+      const existingFile = existingFiles.get(fileInfo.path);
+      if (isGitignored(file)) {
+        return;
+      }
 
-  // Process ignore patterns
-  const ignoreExpressions: Expression[] = [];
-  if (options.ignore) {
-    const ignorePatterns = Array.isArray(options.ignore)
-      ? options.ignore
-      : [options.ignore];
+      if (!existingFile && fileExists) {
+        // New file
+        existingFiles.set(fileInfo.path, fileInfo);
+        signatures.set(fileInfo.path, getSignature(file));
+        changes.added.set(fileInfo.path, fileInfo);
+        trackIdentity(fileInfo.path, file);
+      } else if (existingFile && !fileExists) {
+        // Deleted file
+        existingFiles.delete(fileInfo.path);
+        signatures.delete(fileInfo.path);
+        changes.deleted.set(fileInfo.path, fileInfo);
+        const identity = identities.get(fileInfo.path);
+        if (identity) {
+          identities.delete(fileInfo.path);
+          deletedIdentities.set(identity, fileInfo.path);
+        }
+      } else if (existingFile && fileExists) {
+        // Changed file
+        existingFiles.set(fileInfo.path, fileInfo);
+        signatures.set(fileInfo.path, getSignature(file));
+        trackIdentity(fileInfo.path, file);
+        // Skip changes which only touched the metadata
+        if (
+          !options.contentChangesOnly ||
+          existingFile.sha1 === undefined ||
+          existingFile.sha1 !== fileInfo.sha1
+        ) {
+          changes.changed.set(fileInfo.path, fileInfo);
+        }
+      }
+    });
 
-    for (const pattern of ignorePatterns) {
-      ignoreExpressions.push(["not", ["match", pattern, "wholename"]]);
+    // Pair deletions and additions of the same file into renames
+    if (changes.renamed && deletedIdentities.size > 0) {
+      for (const [filePath, fileInfo] of changes.added) {
+        const identity = identities.get(filePath);
+        const from = identity && deletedIdentities.get(identity);
+        if (from) {
+          deletedIdentities.delete(identity);
+          changes.added.delete(filePath);
+          changes.deleted.delete(from);
+          changes.renamed.set(filePath, { from, info: fileInfo });
+        }
+      }
     }
-  }
 
-  // Build the final expression
-  let expression: Expression = [
-    "allof",
-    ...fileFilters,
-    ["anyof", ...matchExpressions],
-    ...ignoreExpressions,
-  ];
+    // Only call callback if there are changes
+    if (hasChanges(changes)) {
+      callback(changes);
+    }
+  };
 
-  // Determine fields to request from watchman
-  const requestFields: (keyof FileChange)[] = ["name", "exists", "type"];
-  if (options.fields) {
-    if (options.fields.includes("size")) {
-      requestFields.push("size");
+  /**
+   * Report the difference between the tracked files and a complete file list
+   * Existing files count as changed if their content hash or their
+   * signature (size and modification time) differs
+   */
+  const reconcile = async (
+    files: Map<string, FileInfo>,
+    fileSignatures: Map<string, string>,
+  ): Promise<void> => {
+    const changes = createFileChanges();
+    for (const [filePath, fileInfo] of existingFiles) {
+      if (!files.has(filePath)) {
+        existingFiles.delete(filePath);
+        identities.delete(filePath);
+        signatures.delete(filePath);
+        changes.deleted.set(filePath, { ...fileInfo, exists: false });
+      }
     }
-    if (options.fields.includes("mtime")) {
-      requestFields.push("mtime_ms");
+    for (const [filePath, fileInfo] of files) {
+      const existingFile = existingFiles.get(filePath);
+      const before = signatures.get(filePath);
+      const after = fileSignatures.get(filePath);
+      existingFiles.set(filePath, fileInfo);
+      if (after) {
+        signatures.set(filePath, after);
+      }
+      if (!existingFile) {
+        changes.added.set(filePath, fileInfo);
+      } else if (
+        existingFile.sha1 !== undefined && fileInfo.sha1 !== undefined
+          ? existingFile.sha1 !== fileInfo.sha1
+          : !options.contentChangesOnly && after !== undefined
+            ? before !== after
+            : false
+      ) {
+        changes.changed.set(filePath, fileInfo);
+      }
     }
-  }
+    if (hasChanges(changes)) {
+      await callback(changes);
+    }
+  };
 
-  // Setup the subscription
-  await new Promise<void>((resolve, reject) => {
+  /**
+   * Subscribe to changes of .gitignore files (`gitignore` option)
+   */
+  const startGitignoreSubscription = () => {
+    const { client, root } = connection;
+    isGitignoreInitialRun = true;
+    connection.addSubscription(gitignoreSubscriptionName, (resp) => {
+      // States are already reported by the pattern subscription
+      if ("state-enter" in resp || "state-leave" in resp) {
+        return;
+      }
+      // The first response only lists the existing .gitignore files
+      if (isGitignoreInitialRun) {
+        isGitignoreInitialRun = false;
+      } else {
+        reloadGitignore(resp.files.map(({ name }) => path.join(cwd, name)));
+      }
+    });
     client.command(
       [
         "subscribe",
-        watchProjectRoot,
-        subscriptionName,
+        root,
+        gitignoreSubscriptionName,
         {
-          expression: expression,
-          fields: requestFields,
-          relative_root: path.relative(watchProjectRoot, cwd),
-        } satisfies SubscriptionConfig,
+          expression: ["allof", ["type", "f"], ["name", ".gitignore"]],
+          // More than one field lists files as objects instead of names
+          fields: ["name", "exists"],
+          relative_root: path.relative(root, cwd),
+          ...getStateSettings(options),
+        },
       ],
       (error) => {
-        if (error) {
-          reject(error);
-          return;
+        if (error && isConnected) {
+          reportError(
+            new WatchError("Failed to watch the .gitignore files", {
+              backend: "watchman",
+              path: cwd,
+              cause: error,
+            }),
+            options,
+          );
         }
-        resolve();
       },
     );
-  });
+  };
 
-  // Process initial file list
-  await new Promise<void>((resolve) => {
-    const initialRun = (resp: SubscriptionResponse) => {
-      if (resp.subscription !== subscriptionName) {
+  /**
+   * The daemon was restarted or the socket was closed - all subscriptions
+   * of the connection are gone
+   */
+  const handleDisconnect = (error?: Error) => {
+    if (isDestroyed || !isConnected) {
+      return;
+    }
+    isConnected = false;
+    connection.release();
+    rejectInitialRun?.(
+      new WatchmanUnavailableError("Lost the connection to watchman", {
+        backend: "watchman",
+        path: cwd,
+        cause: error,
+      }),
+    );
+    resolveInitialRun = undefined;
+    rejectInitialRun = undefined;
+    reportError(
+      new WatchError("Lost the connection to watchman, reconnecting", {
+        backend: "watchman",
+        path: cwd,
+        cause: error,
+      }),
+      options,
+    );
+    updates = updates.then(reconnect).catch(() => {});
+  };
+
+  /**
+   * Connect again (with exponential backoff) and report the changes
+   * which happened while the connection was lost
+   */
+  const reconnect = async (): Promise<void> => {
+    const attempts = options.reconnectAttempts ?? DEFAULT_RECONNECT_ATTEMPTS;
+    const delay = options.reconnectDelay ?? DEFAULT_RECONNECT_DELAY_MS;
+    let lastError: unknown;
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      if (attempt > 0) {
+        await new Promise<void>((resolve) => {
+          reconnectTimer = setTimeout(
+            resolve,
+            Math.min(delay * 2 ** (attempt - 1), MAX_RECONNECT_DELAY_MS),
+          );
+        });
+      }
+      if (isDestroyed) {
+        return;
+      }
+      try {
+        connection = await acquireConnection(cwd);
+      } catch (error) {
+        lastError = error;
+        continue;
+      }
+      if (isDestroyed) {
+        connection.release();
+        return;
+      }
+      isConnected = true;
+      connection.onDisconnect(handleDisconnect);
+      try {
+        await resubscribe();
+      } catch (error) {
+        // Another disconnect already started the next reconnect
+        if (!isConnected) {
+          return;
+        }
+        reportError(
+          new WatchError(
+            "Failed to subscribe again after reconnecting to watchman",
+            { backend: "watchman", path: cwd, cause: error },
+            false,
+          ),
+          options,
+        );
+      }
+      return;
+    }
+    await giveUp(lastError);
+  };
+
+  /**
+   * Subscribe on the new connection - only the changes since the last
+   * clock are listed unless watchman lost track of them (daemon restart)
+   */
+  const resubscribe = async (): Promise<void> => {
+    if (options.gitignore) {
+      gitignore = await loadGitignore(cwd);
+    }
+    // The clock can't tell about files which started matching
+    // because of changed patterns or .gitignore rules
+    const since =
+      !options.gitignore && subscribedPatterns === currentPatterns
+        ? lastClock
+        : undefined;
+    const resp = await startSubscription(currentPatterns, since);
+    if (gitignore) {
+      startGitignoreSubscription();
+    }
+    if (since && !resp.is_fresh_instance) {
+      processChanges(resp.files);
+      return;
+    }
+    const { files, signatures: fileSignatures } = collectFiles(resp);
+    await reconcile(files, fileSignatures);
+  };
+
+  /**
+   * Watchman can't be reached anymore - continue with the native backend
+   * (`fallbackOnDisconnect` option) or stop
+   */
+  const giveUp = async (error: unknown): Promise<void> => {
+    if (!options.fallbackOnDisconnect) {
+      reportError(
+        new WatchmanUnavailableError(
+          "Watchman can't be reached anymore, stopped watching",
+          { backend: "watchman", path: cwd, cause: error },
+          false,
+        ),
+        options,
+      );
+      return;
+    }
+    reportError(
+      new WatchmanUnavailableError(
+        "Watchman can't be reached anymore, continuing with native",
+        { backend: "watchman", path: cwd, cause: error },
+      ),
+      options,
+    );
+    try {
+      const { watch: watchNative } = await import("./native.ts");
+      let isInitialRun = true;
+      const nativeWatcher = await watchNative(
+        currentPatterns,
+        (changes) => {
+          // The initial scan is compared with the files known so far
+          if (isInitialRun) {
+            isInitialRun = false;
+            return reconcile(changes.added, new Map());
+          }
+          return callback(changes);
+        },
+        options,
+      );
+      if (isDestroyed) {
+        nativeWatcher();
         return;
       }
+      replacement = nativeWatcher;
+    } catch (nativeError) {
+      reportError(
+        new WatchError(
+          "Failed to start the native watcher after losing watchman",
+          { backend: "native", path: cwd, cause: nativeError },
+          false,
+        ),
+        options,
+      );
+    }
+  };
 
-      client.removeListener("subscription", initialRun);
+  connection.onDisconnect(handleDisconnect);
 
-      const changes: FileChanges = {
-        added: new Map<string, FileInfo>(),
-        deleted: new Map<string, FileInfo>(),
-        changed: new Map<string, FileInfo>(),
-      };
+  // Aborting during the initial run fails the watch call - the caller
+  // releases the connection with the subscription
+  const onAbort = () =>
+    rejectInitialRun?.(new AbortError(options.signal!.reason));
+  throwIfAborted(options.signal);
+  options.signal?.addEventListener("abort", onAbort, { once: true });
+  let initialResponse: WatchmanResponse;
+  try {
+    initialResponse = await startSubscription(patternArray);
+  } finally {
+    options.signal?.removeEventListener("abort", onAbort);
+  }
 
-      // Process each file
-      resp.files.forEach((file) => {
-        const fileInfo = createFileInfo(file, cwd);
+  // Process initial file list
+  const initialRun = collectFiles(initialResponse);
+  const changes = createFileChanges();
+  for (const [filePath, fileInfo] of initialRun.files) {
+    existingFiles.set(filePath, fileInfo);
+    signatures.set(filePath, initialRun.signatures.get(filePath)!);
+    changes.added.set(filePath, fileInfo);
+  }
+  // Call the callback with initial files
+  await callback(changes);
 
-        // Add to existing files map
-        if (file.exists !== false) {
-          existingFiles.set(fileInfo.path, fileInfo);
-          changes.added.set(fileInfo.path, fileInfo);
-        }
-      });
+  // Changed .gitignore files are applied like a pattern change
+  if (gitignore) {
+    startGitignoreSubscription();
+  }
 
-      // Call the callback with initial files
-      callback(changes);
-      resolve();
-    };
-    // Set up initial run handler
-    client.on("subscription", initialRun);
-  });
+  /**
+   * Read the changed .gitignore files (absolute paths) again
+   */
+  const reloadGitignore = (filePaths: string[]) => {
+    updates = updates
+      .then(async () => {
+        gitignore = await gitignore!.reload(filePaths);
+        await applyPatterns(currentPatterns);
+      })
+      .catch((error) =>
+        reportError(
+          new WatchError("Failed to apply the changed .gitignore files", {
+            backend: "watchman",
+            path: cwd,
+            cause: error,
+          }),
+          options,
+        ),
+      );
+  };
 
-  // Set up ongoing change handler
-  client.on("subscription", (resp) => {
-    if (resp.subscription !== subscriptionName) {
+  /**
+   * Replace the watched patterns
+   */
+  const setPatterns = (patternList: string[]): Promise<void> => {
+    const update = updates.then(() =>
+      replacement
+        ? replacement.setPatterns(patternList)
+        : applyPatterns(patternList),
+    );
+    updates = update.catch(() => {});
+    return update;
+  };
+
+  /**
+   * Re-subscribe with new patterns and report the difference
+   */
+  const applyPatterns = async (patternList: string[]): Promise<void> => {
+    currentPatterns = patternList;
+    if (!isConnected) {
+      // Applied by the reconnect
       return;
     }
+    const previousName = subscriptionName;
+    const { files, signatures: fileSignatures } = collectFiles(
+      await startSubscription(patternList),
+    );
+    connection.removeSubscription(previousName);
 
-    const changes: FileChanges = {
-      added: new Map<string, FileInfo>(),
-      deleted: new Map<string, FileInfo>(),
-      changed: new Map<string, FileInfo>(),
-    };
-
-    // Process each file change
-    resp.files.forEach((file) => {
-      const fileInfo = createFileInfo(file, cwd);
-      const fileExists = file.exists !== false;
-      const existingFile = existingFiles.get(fileInfo.path);
-      if (file.type === "l") {
-        // Ignore symbolic links if followSymbolicLinks is explicitly false
-        return;
+    const changes = createFileChanges(options.renames);
+    for (const [filePath, fileInfo] of existingFiles) {
+      if (!files.has(filePath)) {
+        existingFiles.delete(filePath);
+        identities.delete(filePath);
+        signatures.delete(filePath);
+        changes.deleted.set(filePath, fileInfo);
       }
-
-      if (!existingFile && fileExists) {
-        // New file
-        existingFiles.set(fileInfo.path, fileInfo);
-        changes.added.set(fileInfo.path, fileInfo);
-      } else if (existingFile && !fileExists) {
-        // Deleted file
-        existingFiles.delete(fileInfo.path);
-        changes.deleted.set(fileInfo.path, fileInfo);
-      } else if (existingFile && fileExists) {
-        // Changed file
-        existingFiles.set(fileInfo.path, fileInfo);
-        changes.changed.set(fileInfo.path, fileInfo);
+    }
+    for (const [filePath, fileInfo] of files) {
+      if (!existingFiles.has(filePath)) {
+        existingFiles.set(filePath, fileInfo);
+        signatures.set(filePath, fileSignatures.get(filePath)!);
+        changes.added.set(filePath, fileInfo);
       }
-    });
-
-    // Only call callback if there are changes
-    if (
-      changes.added.size > 0 ||
-      changes.deleted.size > 0 ||
-      changes.changed.size > 0
-    ) {
-      callback(changes);
     }
-  });
+    if (hasChanges(changes)) {
+      await callback(changes);
+    }
+  };
 
   // Return destroy function
-  return () => {
-    client.end();
-  };
+  return Object.assign(
+    () => {
+      isDestroyed = true;
+      clearTimeout(reconnectTimer);
+      replacement?.();
+      if (isConnected) {
+        // Unsubscribes and closes the connection if no other watcher uses it
+        connection.release();
+      }
+    },
+    {
+      setPatterns,
+      getWatchedFiles: () =>
+        replacement ? replacement.getWatchedFiles() : new Map(existingFiles),
+      getMetrics: () =>
+        replacement
+          ? replacement.getMetrics()
+          : {
+              // The connection is shared - only the subscriptions are ours
+              handles: isConnected ? (gitignore ? 2 : 1) : 0,
+              events: eventCount,
+              recursive: false,
+              polled: 0,
+            },
+    },
+  );
 };
 
 /**
- * Create a Watchman client and verify its capabilities
+ * Result of a one-time watchman query
  */
-async function createWatchmanClient(): Promise<Client> {
-  // Import fb-watchman dynamically to handle the case when it's not installed
-  const { default: watchman } = await import("fb-watchman");
-  const client = new watchman.Client();
-  return new Promise<Client>((resolve, reject) => {
-    const errorHandler = (error: Error) => {
-      client.removeListener("error", errorHandler);
-      client.removeListener("connect", connectHandler);
-      reject(error);
-    };
+export interface QueryResult {
+  /** The watchman clock at the time of the query */
+  clock: string;
+  /** The clock given as `since` is unknown to watchman (e.g. after a restart) - all files are listed */
+  isFreshInstance: boolean;
+  files: WatchmanFile[];
+}
 
-    const connectHandler = () => {
-      client.removeListener("error", errorHandler);
-      client.removeListener("connect", connectHandler);
-      resolve(client);
+/**
+ * Run a single query for the given patterns on a pooled connection
+ * With `since` only files which changed after that clock are listed
+ * (including deleted ones with `exists: false`)
+ */
+export const query = async (
+  patterns: string | string[],
+  options: WatchOptions,
+  extraFields: (keyof WatchmanFile)[] = [],
+  since?: string,
+): Promise<QueryResult> => {
+  assertSupported(options);
+  const cwd = options.cwd || process.cwd();
+  const { client, root, release } = await acquireConnection(cwd);
+  const patternArray = Array.isArray(patterns) ? patterns : [patterns];
+  try {
+    const gitignore = options.gitignore ? await loadGitignore(cwd) : undefined;
+    const resp = await sendCommand<{
+      clock: string;
+      is_fresh_instance: boolean;
+      files: WatchmanFile[];
+    }>(
+      client,
+      cwd,
+      [
+        "query",
+        root,
+        {
+          expression: createExpression(
+            patternArray,
+            options,
+            gitignore?.ignorePatterns,
+          ),
+          fields: [...new Set([...getRequestFields(options), ...extraFields])],
+          relative_root: path.relative(root, cwd),
+          ...(since ? { since } : {}),
+        },
+      ],
+      `Failed to query ${patternArray.join(", ")}`,
+    );
+    return {
+      clock: resp.clock,
+      isFreshInstance: resp.is_fresh_instance,
+      files: resp.files.filter(
+        (file) => !gitignore?.isIgnored(file.name, file.type === "d"),
+      ),
     };
+  } finally {
+    release();
+  }
+};
 
-    client.on("error", errorHandler);
-    client.on("connect", connectHandler);
+/**
+ * Yield the FileInfo of every file which matches the patterns
+ * Watchman answers a query with a single response - its files are
+ * yielded one by one
+ */
+export async function* queryFileInfos(
+  patterns: string | string[],
+  options: WatchOptions = {},
+): AsyncGenerator<FileInfo, void, undefined> {
+  const { files } = await raceAbort(query(patterns, options), options.signal);
+  const cwd = options.cwd || process.cwd();
+  for (const file of files) {
+    throwIfAborted(options.signal);
+    if (file.exists !== false) {
+      yield createFileInfo(file, cwd, options);
+    }
+  }
+}
 
-    client.capabilityCheck(
-      { optional: [], required: ["relative_root"] },
-      (error: Error | null) => {
-        if (error) {
-          errorHandler(error);
-        }
-      },
+/**
+ * Assert a state on the watch root of `cwd` (e.g. around a code generator)
+ * Subscriptions which list the state in `defer` hold back their changes
+ * until it is left, with `drop` the changes are discarded
+ *
+ * Resolves with a function which leaves the state again - watchman leaves
+ * it on its own if the connection is closed before
+ */
+export const enterState = async (
+  cwd: string,
+  name: string,
+  metadata?: unknown,
+): Promise<() => Promise<void>> => {
+  const { client, root, release } = await acquireConnection(cwd);
+  try {
+    await sendCommand(
+      client,
+      cwd,
+      ["state-enter", root, { name, metadata }],
+      `Failed to enter state ${name}`,
     );
+  } catch (error) {
+    release();
+    throw error;
+  }
+  return async () => {
+    try {
+      await sendCommand(
+        client,
+        cwd,
+        ["state-leave", root, { name, metadata }],
+        `Failed to leave state ${name}`,
+      );
+    } finally {
+      release();
+    }
+  };
+};
+
+/**
+ * Send a command which fb-watchman's typings don't cover
+ */
+const sendCommand = <T>(
+  client: Client,
+  cwd: string,
+  args: unknown[],
+  message: string,
+): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const send = client.command.bind(client) as unknown as (
+      args: unknown[],
+      callback: CommandCallback,
+    ) => void;
+    send(args, (error, resp) => {
+      if (error) {
+        reject(
+          new SubscriptionFailedError(message, {
+            backend: "watchman",
+            path: cwd,
+            cause: error,
+          }),
+        );
+        return;
+      }
+      resolve(resp);
+    });
   });
+
+/**
+ * The `defer` and `drop` subscription settings
+ */
+interface StateSettings {
+  defer?: string[];
+  drop?: string[];
 }
+
+/**
+ * Pass the `defer` and `drop` options to a subscription
+ */
+const getStateSettings = (options: WatchOptions): StateSettings => {
+  const settings: StateSettings = {};
+  if (options.defer?.length) {
+    settings.defer = options.defer;
+  }
+  if (options.drop?.length) {
+    settings.drop = options.drop;
+  }
+  return settings;
+};
+
+/**
+ * Pass a state notification to `onStateEnter` or `onStateLeave`
+ * Returns false for responses which list file changes
+ */
+const notifyState = (
+  resp: WatchmanResponse,
+  options: WatchOptions,
+): boolean => {
+  const name = resp["state-enter"] ?? resp["state-leave"];
+  if (name === undefined) {
+    return false;
+  }
+  const event: WatchmanState = { name };
+  if (resp.metadata !== undefined) {
+    event.metadata = resp.metadata;
+  }
+  if (resp.abandoned) {
+    event.abandoned = true;
+  }
+  if (resp["state-enter"] !== undefined) {
+    options.onStateEnter?.(event);
+  } else {
+    options.onStateLeave?.(event);
+  }
+  return true;
+};
+
+/**
+ * A `match` expression for the whole path - the fb-watchman types don't
+ * know its `includedotfiles` option
+ */
+const createMatchExpression = (
+  pattern: string,
+  includedotfiles?: boolean,
+): Expression =>
+  ["match", pattern, "wholename", { includedotfiles }] as const as any;
+
+/**
+ * Build the watchman expression for the given patterns and options
+ */
+const createExpression = (
+  patternList: string[],
+  options: WatchOptions,
+  gitignorePatterns: string[] = [],
+): Expression => {
+  // Only files or only directories filter - symbolic links are never
+  // followed by watchman and only listed with `reportSymbolicLinks`
+  const fileFilters: Expression[] = [];
+  if (options.onlyDirectories) {
+    fileFilters.push(["type", "d"]);
+  } else if (options.onlyFiles !== false) {
+    fileFilters.push(
+      options.reportSymbolicLinks
+        ? ["anyof", ["type", "f"], ["type", "l"]]
+        : ["type", "f"],
+    );
+  } else if (!options.reportSymbolicLinks) {
+    fileFilters.push(["not", ["type", "l"]]);
+  }
+
+  // Process ignore patterns - negated patterns exclude their matches too
+  const ignoreExpressions: Expression[] = [];
+  const ignorePatterns = [
+    ...(options.ignore
+      ? Array.isArray(options.ignore)
+        ? options.ignore
+        : [options.ignore]
+      : []),
+    ...patternList
+      .filter((pattern) => pattern.startsWith("!"))
+      .map((pattern) => pattern.slice(1)),
+  ];
+  for (const pattern of ignorePatterns) {
+    ignoreExpressions.push(["not", ["match", pattern, "wholename"]]);
+  }
+  // .gitignore rules which can't be undone by a negation - the others
+  // are applied to the results
+  for (const pattern of gitignorePatterns) {
+    ignoreExpressions.push(["not", createMatchExpression(pattern, true)]);
+  }
+
+  // Process patterns into watchman expressions
+  const matchExpressions = patternList
+    .filter((pattern) => !pattern.startsWith("!"))
+    .map((pattern) => createMatchExpression(pattern, options.dot));
+  return [
+    "allof",
+    ...fileFilters,
+    ["anyof", ...matchExpressions],
+    ...ignoreExpressions,
+  ];
+};
+
+/**
+ * Determine the fields to request from watchman
+ */
+const getRequestFields = (options: WatchOptions): (keyof WatchmanFile)[] => {
+  const requestFields: (keyof WatchmanFile)[] = ["name", "exists", "type"];
+  if (options.renames) {
+    requestFields.push("ino", "dev");
+  }
+  if (needsContentHash(options)) {
+    requestFields.push("content.sha1hex");
+  }
+  if (options.fields) {
+    if (options.fields.includes("size")) {
+      requestFields.push("size");
+    }
+    if (options.fields.includes("mtime")) {
+      requestFields.push("mtime_ms");
+    }
+  }
+  return requestFields;
+};
+
+/**
+ * Size and modification time of a file - a different signature means
+ * the file was modified
+ */
+const getSignature = (file: WatchmanFile): string => {
+  const mtime =
+    typeof file.mtime_ms === "number"
+      ? file.mtime_ms
+      : file.mtime_ms?.toNumber();
+  return `${mtime}:${file.size}`;
+};
+
+/**
+ * Create a file info object from a watchman file entry
+ */
+export const createFileInfo = (
+  file: WatchmanFile,
+  rootPath: string,
+  options: WatchOptions,
+): FileInfo => {
+  const relativePath = file.name;
+  const info: FileInfo = {
+    name: path.basename(relativePath),
+    path: options.absolute
+      ? path.resolve(rootPath, relativePath)
+      : relativePath,
+  };
+  if ("exists" in file) {
+    info.exists = file.exists;
+  }
+  if ("type" in file) {
+    info.type = file.type;
+  }
+
+  // Add requested fields
+  if (options.fields) {
+    if (options.fields.includes("size") && "size" in file) {
+      info.size = file.size;
+    }
+    if (options.fields.includes("mtime") && "mtime_ms" in file) {
+      info.mtime =
+        typeof file.mtime_ms === "number" ? file.mtime_ms : undefined;
+    }
+  }
+  if (typeof file["content.sha1hex"] === "string") {
+    info.sha1 = file["content.sha1hex"];
+  }
+
+  return info;
+};
+
+/**
+ * Throw for options watchman can't handle
+ */
+const assertSupported = (options: WatchOptions): void => {
+  // Watchman reports links but never looks into their targets
+  if (options.followSymbolicLinks) {
+    throw new WatchmanUnavailableError("Watchman can't follow symbolic links", {
+      backend: "watchman",
+    });
+  }
+};
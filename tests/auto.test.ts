@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { findFiles, watch, ModeSelection, WatchOptions } from "../src/index";
+import { createWatcherTests } from "./base.ts";
+import {
+  createTestDir,
+  createFiles,
+  cleanupDir,
+  hideWatchmanLogs,
+} from "./utils";
+
+// Run the base test suite for the auto watcher
+createWatcherTests("auto");
+
+describe("auto mode selection", () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = createTestDir("auto-selection-test");
+    hideWatchmanLogs();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    cleanupDir(testDir);
+  });
+
+  it("should use auto mode when no mode is given", async () => {
+    await createFiles(
+      testDir,
+      `
+      ├─ README.md
+      └─ src
+         └─ index.ts
+    `,
+    );
+
+    const selections: ModeSelection[] = [];
+    const files = await findFiles("**/*.ts", {
+      cwd: testDir,
+      onModeSelected: (selection) => selections.push(selection),
+    });
+
+    expect(files).toEqual(["src/index.ts"]);
+    expect(selections).toHaveLength(1);
+    expect(selections[0].requested).toBe("auto");
+    expect(["watchman", "fast-glob"]).toContain(selections[0].mode);
+  });
+
+  it("should report the reason for every fallback", async () => {
+    const selections: ModeSelection[] = [];
+    const destroy = await watch("**/*.ts", () => {}, {
+      cwd: testDir,
+      onModeSelected: (selection) => selections.push(selection),
+    });
+
+    expect(selections).toHaveLength(1);
+    const [{ mode, fallbacks }] = selections;
+    if (mode !== "watchman") {
+      expect(fallbacks[0].mode).toBe("watchman");
+      expect(fallbacks[0].reason).toEqual(expect.any(String));
+    }
+    destroy();
+  });
+
+  it("should reject unknown modes", async () => {
+    await expect(
+      watch("**/*.ts", () => {}, {
+        cwd: testDir,
+        mode: "unknown" as unknown as WatchOptions["mode"],
+      }),
+    ).rejects.toThrow("Unknown watcher mode: unknown");
+  });
+
+  it.each([0, -1, 1.5, NaN])(
+    "should reject the concurrency %s",
+    async (concurrency) => {
+      await expect(
+        watch("**/*.ts", () => {}, { cwd: testDir, concurrency }),
+      ).rejects.toThrow(`Invalid concurrency: ${concurrency}`);
+    },
+  );
+});
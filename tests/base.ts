@@ -1,14 +1,27 @@
-import { describe, it, expect, beforeEach, afterEach } from "vitest";
-import { watch, findFiles, FileChanges } from "../src/index";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  watch,
+  openWatcher,
+  watchIterable,
+  findFiles,
+  findFileInfos,
+  findFilesStream,
+  FileChanges,
+  WatchError,
+  AbortError,
+} from "../src/index";
 import {
   createTestDir,
   createFiles,
   cleanupDir,
   createCallTracker,
+  hideWatchmanLogs,
 } from "./utils";
+import fs from "fs";
+import { createHash } from "crypto";
 import path from "path";
 
-type WatcherMode = "native" | "watchman";
+type WatcherMode = "auto" | "native" | "watchman" | "poll";
 
 /**
  * Creates a standardized test suite for a watcher implementation
@@ -18,13 +31,26 @@ type WatcherMode = "native" | "watchman";
 export function createWatcherTests(mode: WatcherMode) {
   describe(`${mode} watcher`, () => {
     let testDir: string;
+    // Watchman can't be used everywhere - warnings about the fallback to
+    // another backend are expected, any other error fails the test
+    const unexpectedErrors: WatchError[] = [];
+    const onError = (error: WatchError) => {
+      if (error.backend !== "watchman" || !error.recoverable) {
+        unexpectedErrors.push(error);
+      }
+    };
+    // The poll tests don't wait for the default interval of a second
+    const pollInterval = 100;
 
     beforeEach(() => {
       testDir = createTestDir(`${mode}-test`);
+      hideWatchmanLogs();
     });
 
     afterEach(() => {
+      vi.restoreAllMocks();
       cleanupDir(testDir);
+      expect(unexpectedErrors.splice(0)).toEqual([]);
     });
 
     it("should find all TypeScript files using findFiles", async () => {
@@ -44,6 +70,8 @@ export function createWatcherTests(mode: WatcherMode) {
       const files = await findFiles(["**/*.ts"], {
         cwd: testDir,
         mode,
+        onError,
+        pollInterval,
       });
 
       expect(files.length).toBe(3);
@@ -52,6 +80,279 @@ export function createWatcherTests(mode: WatcherMode) {
       expect(files).toContain("src/components/card.ts");
     });
 
+    it("should find files with their fields using findFileInfos", async () => {
+      await createFiles(
+        testDir,
+        `
+        ├─ README.md
+        └─ src
+           ├─ index.ts
+           └─ empty.ts
+      `,
+      );
+      fs.writeFileSync(path.join(testDir, "src/index.ts"), "export {};");
+
+      const files = await findFileInfos(["**/*.ts"], {
+        cwd: testDir,
+        mode,
+        onError,
+        pollInterval,
+        fields: ["size"],
+      });
+
+      expect([...files.keys()].sort()).toEqual([
+        "src/empty.ts",
+        "src/index.ts",
+      ]);
+      expect(files.get("src/index.ts")).toMatchObject({
+        name: "index.ts",
+        path: "src/index.ts",
+        size: 10,
+      });
+    });
+
+    it("should stream the files using findFilesStream", async () => {
+      await createFiles(
+        testDir,
+        `
+        ├─ README.md
+        └─ src
+           ├─ index.ts
+           └─ components
+              ├─ button.ts
+              └─ card.ts
+      `,
+      );
+
+      const files: string[] = [];
+      for await (const file of findFilesStream(["**/*.ts"], {
+        cwd: testDir,
+        mode,
+        onError,
+        pollInterval,
+      })) {
+        files.push(file.path);
+      }
+      expect(files.sort()).toEqual([
+        "src/components/button.ts",
+        "src/components/card.ts",
+        "src/index.ts",
+      ]);
+
+      // Leaving the loop early stops the scan
+      const first: string[] = [];
+      for await (const file of findFilesStream(["**/*.ts"], {
+        cwd: testDir,
+        mode,
+        onError,
+        pollInterval,
+      })) {
+        first.push(file.path);
+        break;
+      }
+      expect(first).toHaveLength(1);
+    });
+
+    it("should reject findFiles with an AbortError once aborted", async () => {
+      await createFiles(
+        testDir,
+        `
+        └─ src
+           └─ index.ts
+      `,
+      );
+
+      const controller = new AbortController();
+      const files = findFiles(["**/*.ts"], {
+        cwd: testDir,
+        mode,
+        onError,
+        pollInterval,
+        signal: controller.signal,
+      });
+      // Abort while the scan is still running
+      controller.abort();
+
+      await expect(files).rejects.toThrow(AbortError);
+      await expect(
+        findFiles(["**/*.ts"], {
+          cwd: testDir,
+          mode,
+          onError,
+          pollInterval,
+          signal: controller.signal,
+        }),
+      ).rejects.toMatchObject({ name: "AbortError" });
+    });
+
+    it("should stop findFilesStream once aborted", async () => {
+      await createFiles(
+        testDir,
+        `
+        └─ src
+           ├─ index.ts
+           └─ utils.ts
+      `,
+      );
+
+      const controller = new AbortController();
+      const files: string[] = [];
+      const iterate = async () => {
+        for await (const file of findFilesStream(["**/*.ts"], {
+          cwd: testDir,
+          mode,
+          onError,
+          pollInterval,
+          signal: controller.signal,
+        })) {
+          files.push(file.path);
+          controller.abort();
+        }
+      };
+
+      await expect(iterate()).rejects.toThrow(AbortError);
+      expect(files).toHaveLength(1);
+    });
+
+    it("should cancel a starting watcher and stop a running one with the signal", async () => {
+      await createFiles(
+        testDir,
+        `
+        └─ src
+           └─ index.ts
+      `,
+      );
+
+      const starting = new AbortController();
+      const startingWatcher = watch("src/**/*.ts", () => {}, {
+        cwd: testDir,
+        mode,
+        onError,
+        pollInterval,
+        signal: starting.signal,
+      });
+      starting.abort();
+      await expect(startingWatcher).rejects.toThrow(AbortError);
+
+      const running = new AbortController();
+      const changes = createCallTracker<[FileChanges]>();
+      await watch("src/**/*.ts", changes, {
+        cwd: testDir,
+        mode,
+        onError,
+        pollInterval,
+        signal: running.signal,
+      });
+      changes.reset();
+      running.abort();
+
+      await createFiles(
+        testDir,
+        `
+        └─ src
+           └─ added.ts
+      `,
+      );
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      expect(changes.count).toBe(0);
+    });
+
+    it("should end watchIterable with an AbortError once aborted", async () => {
+      await createFiles(
+        testDir,
+        `
+        └─ src
+           └─ index.ts
+      `,
+      );
+
+      const controller = new AbortController();
+      const received: FileChanges[] = [];
+      const iterate = async () => {
+        for await (const changes of watchIterable("src/**/*.ts", {
+          cwd: testDir,
+          mode,
+          onError,
+          pollInterval,
+          signal: controller.signal,
+        })) {
+          received.push(changes);
+          // Abort while the loop waits for the next changes
+          setTimeout(() => controller.abort(), 50);
+        }
+      };
+
+      await expect(iterate()).rejects.toThrow(AbortError);
+      expect(received).toHaveLength(1);
+    });
+
+    it("should skip the initial scan with ignoreInitial and call onReady", async () => {
+      await createFiles(
+        testDir,
+        `
+        └─ src
+           └─ index.ts
+      `,
+      );
+
+      const changes = createCallTracker<[FileChanges]>();
+      const readyFiles: string[][] = [];
+      const watcher = await watch("src/**/*.ts", changes, {
+        cwd: testDir,
+        mode,
+        onError,
+        pollInterval,
+        ignoreInitial: true,
+        onReady: (files) => readyFiles.push([...files.keys()]),
+      });
+
+      expect(readyFiles).toEqual([["src/index.ts"]]);
+      expect(changes.count).toBe(0);
+
+      await createFiles(
+        testDir,
+        `
+        └─ src
+           └─ added.ts
+      `,
+      );
+
+      const [{ added }] = await changes.first();
+      expect([...added.keys()]).toEqual(["src/added.ts"]);
+      watcher();
+    });
+
+    it("should be ready once an async initial callback is done", async () => {
+      await createFiles(
+        testDir,
+        `
+        └─ src
+           └─ index.ts
+      `,
+      );
+
+      const steps: string[] = [];
+      const watcher = await watch(
+        "src/**/*.ts",
+        async () => {
+          if (steps.length === 0) {
+            await new Promise((resolve) => setTimeout(resolve, 50));
+            steps.push("initial callback done");
+          }
+        },
+        {
+          cwd: testDir,
+          mode,
+          onError,
+          pollInterval,
+          onReady: () => steps.push("onReady"),
+        },
+      );
+
+      expect(steps).toEqual(["initial callback done", "onReady"]);
+      watcher();
+    });
+
     it("should find files with multiple patterns", async () => {
       await createFiles(
         testDir,
@@ -74,6 +375,8 @@ export function createWatcherTests(mode: WatcherMode) {
       const files = await findFiles(["src/**/*.ts", "tests/**/*.test.ts"], {
         cwd: testDir,
         mode,
+        onError,
+        pollInterval,
       });
 
       expect(files.length).toBe(6);
@@ -102,6 +405,8 @@ export function createWatcherTests(mode: WatcherMode) {
       const files = await findFiles(["**/*.ts"], {
         cwd: testDir,
         mode,
+        onError,
+        pollInterval,
         absolute: true,
       });
 
@@ -129,6 +434,8 @@ export function createWatcherTests(mode: WatcherMode) {
       const files = await findFiles(["**/*"], {
         cwd: testDir,
         mode,
+        onError,
+        pollInterval,
         onlyDirectories: true,
         onlyFiles: false,
       });
@@ -155,6 +462,8 @@ export function createWatcherTests(mode: WatcherMode) {
       const files = await findFiles(["**/*"], {
         cwd: testDir,
         mode,
+        onError,
+        pollInterval,
         onlyFiles: true,
       });
 
@@ -181,6 +490,8 @@ export function createWatcherTests(mode: WatcherMode) {
       const filesWithoutDot = await findFiles(["**/*.ts"], {
         cwd: testDir,
         mode,
+        onError,
+        pollInterval,
         dot: false, // default
       });
 
@@ -192,6 +503,8 @@ export function createWatcherTests(mode: WatcherMode) {
       const filesWithDot = await findFiles(["**/*.ts"], {
         cwd: testDir,
         mode,
+        onError,
+        pollInterval,
         dot: true,
       });
 
@@ -221,6 +534,8 @@ export function createWatcherTests(mode: WatcherMode) {
       const destroy = await watch("**/*.ts", changes, {
         cwd: testDir,
         mode,
+        onError,
+        pollInterval,
       });
 
       const [{ added }] = await changes.latest();
@@ -249,6 +564,8 @@ export function createWatcherTests(mode: WatcherMode) {
       const destroy = await watch("**/*.ts", changes, {
         cwd: testDir,
         mode,
+        onError,
+        pollInterval,
         fields: ["type", "size", "mtime"],
       });
 
@@ -284,6 +601,8 @@ export function createWatcherTests(mode: WatcherMode) {
       const destroy = await watch("**/*.ts", changes, {
         cwd: testDir,
         mode,
+        onError,
+        pollInterval,
       });
 
       // Wait for initial watch to complete
@@ -334,6 +653,8 @@ export function createWatcherTests(mode: WatcherMode) {
       const destroy = await watch("**/*.ts", changes, {
         cwd: testDir,
         mode,
+        onError,
+        pollInterval,
       });
 
       // Wait for initial watch to complete
@@ -372,6 +693,8 @@ export function createWatcherTests(mode: WatcherMode) {
       const destroy = await watch("**/*.ts", changes, {
         cwd: testDir,
         mode,
+        onError,
+        pollInterval,
         ignore: ["**/new-file.demo.ts"],
       });
 
@@ -401,6 +724,717 @@ export function createWatcherTests(mode: WatcherMode) {
       destroy();
     });
 
+    it("should only report new files that match the patterns", async () => {
+      await createFiles(
+        testDir,
+        `
+        ├─ README.md
+        └─ src
+           └─ index.ts
+      `,
+      );
+
+      const changes = createCallTracker<[FileChanges]>();
+
+      const destroy = await watch("src/**/*.ts", changes, {
+        cwd: testDir,
+        mode,
+        onError,
+        pollInterval,
+      });
+
+      await changes.latest();
+      changes.reset();
+
+      await createFiles(
+        testDir,
+        `
+        ├─ notes.ts
+        └─ src
+           ├─ notes.md
+           ├─ .hidden.ts
+           └─ new.ts
+      `,
+      );
+
+      const [{ added }] = await changes.first();
+      expect([...added.keys()]).toEqual(["src/new.ts"]);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      for (const [fileChanges] of changes.all) {
+        expect([...fileChanges.added.keys()]).not.toContain("src/notes.md");
+        expect([...fileChanges.added.keys()]).not.toContain("src/.hidden.ts");
+        expect([...fileChanges.added.keys()]).not.toContain("notes.ts");
+      }
+
+      destroy();
+    });
+
+    it("should exclude files which match a negated pattern", async () => {
+      await createFiles(
+        testDir,
+        `
+        └─ src
+           ├─ index.ts
+           └─ index.test.ts
+      `,
+      );
+
+      const changes = createCallTracker<[FileChanges]>();
+      const destroy = await watch(
+        ["src/**/*.ts", "!src/**/*.test.ts"],
+        changes,
+        { cwd: testDir, mode, onError, pollInterval },
+      );
+
+      const [{ added: initial }] = await changes.first();
+      expect([...initial.keys()]).toEqual(["src/index.ts"]);
+      changes.reset();
+
+      await createFiles(
+        testDir,
+        `
+        └─ src
+           ├─ notes.md
+           ├─ b.test.ts
+           └─ new.ts
+      `,
+      );
+
+      const [{ added }] = await changes.first();
+      expect([...added.keys()]).toEqual(["src/new.ts"]);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      for (const [fileChanges] of changes.all) {
+        expect([...fileChanges.added.keys()]).not.toContain("src/notes.md");
+        expect([...fileChanges.added.keys()]).not.toContain("src/b.test.ts");
+      }
+
+      destroy();
+    });
+
+    it("should detect new files in a directory that was empty at startup", async () => {
+      await createFiles(
+        testDir,
+        `
+        ├─ README.md
+        └─ src
+      `,
+      );
+
+      const changes = createCallTracker<[FileChanges]>();
+
+      const destroy = await watch("src/**/*.ts", changes, {
+        cwd: testDir,
+        mode,
+        onError,
+        pollInterval,
+      });
+
+      const [{ added: initialAdded }] = await changes.latest();
+      expect(initialAdded.size).toBe(0);
+      changes.reset();
+
+      await createFiles(
+        testDir,
+        `
+        └─ src
+           └─ index.ts
+      `,
+      );
+
+      const [{ added }] = await changes.first();
+      expect([...added.keys()]).toEqual(["src/index.ts"]);
+
+      destroy();
+    });
+
+    it("should detect new files once the pattern base directory is created", async () => {
+      await createFiles(
+        testDir,
+        `
+        └─ README.md
+      `,
+      );
+
+      const changes = createCallTracker<[FileChanges]>();
+
+      const destroy = await watch("packages/app/**/*.ts", changes, {
+        cwd: testDir,
+        mode,
+        onError,
+        pollInterval,
+      });
+
+      await changes.latest();
+      changes.reset();
+
+      fs.mkdirSync(path.join(testDir, "packages", "app"), { recursive: true });
+      // Give the watcher time to attach to the new directory
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      await createFiles(
+        testDir,
+        `
+        └─ packages
+           └─ app
+              └─ index.ts
+      `,
+      );
+
+      const [{ added }] = await changes.first();
+      expect([...added.keys()]).toEqual(["packages/app/index.ts"]);
+
+      destroy();
+    });
+
+    it("should merge bursts of changes when batchDelay is set", async () => {
+      await createFiles(
+        testDir,
+        `
+        └─ src
+           └─ index.ts
+      `,
+      );
+
+      const changes = createCallTracker<[FileChanges]>();
+
+      const destroy = await watch("src/**/*.ts", changes, {
+        cwd: testDir,
+        mode,
+        onError,
+        pollInterval,
+        batchDelay: 100,
+      });
+
+      await changes.latest();
+      changes.reset();
+
+      await createFiles(
+        testDir,
+        `
+        └─ src
+           ├─ a.ts
+           ├─ b.ts
+           └─ temp.ts
+      `,
+      );
+      fs.unlinkSync(path.join(testDir, "src", "temp.ts"));
+
+      const [{ added, deleted }] = await changes.first();
+      expect([...added.keys()].sort()).toEqual(["src/a.ts", "src/b.ts"]);
+      expect(deleted.size).toBe(0);
+      expect(changes.count).toBe(1);
+
+      destroy();
+    });
+
+    it("should report moved files as renamed when renames is enabled", async () => {
+      await createFiles(
+        testDir,
+        `
+        └─ src
+           ├─ index.ts
+           └─ components
+              └─ button.ts
+      `,
+      );
+
+      const changes = createCallTracker<[FileChanges]>();
+
+      const destroy = await watch("src/**/*.ts", changes, {
+        cwd: testDir,
+        mode,
+        onError,
+        pollInterval,
+        renames: true,
+      });
+
+      await changes.latest();
+      changes.reset();
+
+      fs.renameSync(
+        path.join(testDir, "src", "index.ts"),
+        path.join(testDir, "src", "components", "main.ts"),
+      );
+
+      const [{ added, deleted, renamed }] = await changes.first();
+      expect(added.size).toBe(0);
+      expect(deleted.size).toBe(0);
+      expect([...renamed!]).toEqual([
+        [
+          "src/components/main.ts",
+          {
+            from: "src/index.ts",
+            info: expect.objectContaining({ path: "src/components/main.ts" }),
+          },
+        ],
+      ]);
+
+      destroy();
+    });
+
+    it("should report moved files as deleted and added by default", async () => {
+      await createFiles(
+        testDir,
+        `
+        └─ src
+           └─ index.ts
+      `,
+      );
+
+      const changes = createCallTracker<[FileChanges]>();
+
+      const destroy = await watch("src/**/*.ts", changes, {
+        cwd: testDir,
+        mode,
+        onError,
+        pollInterval,
+        batchDelay: 50,
+      });
+
+      await changes.latest();
+      changes.reset();
+
+      fs.renameSync(
+        path.join(testDir, "src", "index.ts"),
+        path.join(testDir, "src", "main.ts"),
+      );
+
+      const [{ added, deleted, renamed }] = await changes.first();
+      expect([...added.keys()]).toEqual(["src/main.ts"]);
+      expect([...deleted.keys()]).toEqual(["src/index.ts"]);
+      expect(renamed).toBeUndefined();
+
+      destroy();
+    });
+
+    it("should only report content changes when contentChangesOnly is set", async () => {
+      await createFiles(
+        testDir,
+        `
+        └─ src
+           ├─ index.ts
+           └─ button.ts
+      `,
+      );
+
+      const changes = createCallTracker<[FileChanges]>();
+
+      const destroy = await watch("src/**/*.ts", changes, {
+        cwd: testDir,
+        mode,
+        onError,
+        pollInterval,
+        contentChangesOnly: true,
+      });
+
+      const [{ added: initialAdded }] = await changes.latest();
+      expect(initialAdded.get("src/index.ts")?.sha1).toBe(
+        createHash("sha1").update("index.ts").digest("hex"),
+      );
+      changes.reset();
+
+      // Only touch the first file
+      const now = new Date();
+      fs.utimesSync(path.join(testDir, "src", "index.ts"), now, now);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      fs.writeFileSync(path.join(testDir, "src", "button.ts"), "changed");
+
+      const [{ changed }] = await changes.first();
+      expect([...changed.keys()]).toEqual(["src/button.ts"]);
+      expect(changed.get("src/button.ts")?.sha1).toBe(
+        createHash("sha1").update("changed").digest("hex"),
+      );
+
+      destroy();
+    });
+
+    it("should merge changes for slow consumers of watchIterable", async () => {
+      await createFiles(
+        testDir,
+        `
+        └─ src
+           └─ index.ts
+      `,
+      );
+
+      const batches: FileChanges[] = [];
+      for await (const changes of watchIterable("src/**/*.ts", {
+        cwd: testDir,
+        mode,
+        onError,
+        pollInterval,
+      })) {
+        batches.push(changes);
+        if (batches.length === 2) {
+          break;
+        }
+        // Simulate a slow consumer while files are created
+        await createFiles(
+          testDir,
+          `
+          └─ src
+             ├─ a.ts
+             └─ b.ts
+        `,
+        );
+        await new Promise((resolve) => setTimeout(resolve, 50));
+      }
+
+      expect([...batches[0].added.keys()]).toEqual(["src/index.ts"]);
+      expect([...batches[1].added.keys()].sort()).toEqual([
+        "src/a.ts",
+        "src/b.ts",
+      ]);
+    });
+
+    it("should add and unwatch patterns at runtime", async () => {
+      await createFiles(
+        testDir,
+        `
+        ├─ src
+        │  └─ index.ts
+        └─ tests
+           └─ index.test.ts
+      `,
+      );
+
+      const changes = createCallTracker<[FileChanges]>();
+
+      const watcher = openWatcher("src/**/*.ts", changes, {
+        cwd: testDir,
+        mode,
+        onError,
+        pollInterval,
+      });
+      await watcher.ready;
+      expect([...watcher.getWatchedFiles().keys()]).toEqual(["src/index.ts"]);
+      changes.reset();
+
+      await watcher.add("tests/**/*.ts");
+      const [{ added }] = await changes.latest();
+      expect([...added.keys()]).toEqual(["tests/index.test.ts"]);
+      changes.reset();
+
+      // Files in the added patterns are watched
+      await createFiles(
+        testDir,
+        `
+        └─ tests
+           └─ new.test.ts
+      `,
+      );
+      const [{ added: newAdded }] = await changes.first();
+      expect([...newAdded.keys()]).toEqual(["tests/new.test.ts"]);
+      changes.reset();
+
+      await watcher.unwatch("src/**/*.ts");
+      const [{ deleted }] = await changes.latest();
+      expect([...deleted.keys()]).toEqual(["src/index.ts"]);
+      expect([...watcher.getWatchedFiles().keys()].sort()).toEqual([
+        "tests/index.test.ts",
+        "tests/new.test.ts",
+      ]);
+
+      await watcher.close();
+    });
+
+    it("should not overlap slow async callbacks", async () => {
+      await createFiles(
+        testDir,
+        `
+        └─ src
+           └─ index.ts
+      `,
+      );
+
+      let running = 0;
+      let overlaps = 0;
+      const changes = createCallTracker<[FileChanges]>();
+
+      const destroy = await watch(
+        "src/**/*.ts",
+        async (fileChanges) => {
+          running++;
+          overlaps += running > 1 ? 1 : 0;
+          await new Promise((resolve) => setTimeout(resolve, 30));
+          running--;
+          changes(fileChanges);
+        },
+        { cwd: testDir, mode, onError, pollInterval },
+      );
+
+      await changes.latest();
+      changes.reset();
+
+      await createFiles(
+        testDir,
+        `
+        └─ src
+           └─ a.ts
+      `,
+      );
+      await createFiles(
+        testDir,
+        `
+        └─ src
+           └─ b.ts
+      `,
+      );
+      fs.unlinkSync(path.join(testDir, "src", "a.ts"));
+      await new Promise((resolve) => setTimeout(resolve, 150));
+
+      expect(overlaps).toBe(0);
+      // All changes were delivered in order and merged while busy
+      const added = new Set<string>();
+      for (const [fileChanges] of changes.all) {
+        fileChanges.added.forEach((_, filePath) => added.add(filePath));
+        fileChanges.deleted.forEach((_, filePath) => added.delete(filePath));
+      }
+      expect([...added]).toEqual(["src/b.ts"]);
+
+      destroy();
+    });
+
+    it("should pass rejected callbacks to onError", async () => {
+      const errors: WatchError[] = [];
+      const callbackError = new Error("callback failed");
+
+      const destroy = await watch(
+        "src/**/*.ts",
+        async () => {
+          throw callbackError;
+        },
+        // Fallbacks are reported as well - only the callback error matters here
+        {
+          cwd: testDir,
+          mode,
+          pollInterval,
+          onError: (error) => errors.push(error),
+        },
+      );
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      const error = errors.find(({ cause }) => cause === callbackError);
+      expect(error).toBeInstanceOf(WatchError);
+
+      destroy();
+    });
+
+    it("should skip files ignored by .gitignore files when gitignore is set", async () => {
+      await createFiles(
+        testDir,
+        `
+        ├─ dist
+        │  └─ index.ts
+        └─ src
+           ├─ index.ts
+           ├─ generated
+           │  └─ api.ts
+           └─ nested
+              ├─ a.gen.ts
+              └─ keep.gen.ts
+        `,
+      );
+      fs.writeFileSync(
+        path.join(testDir, ".gitignore"),
+        "dist/\n/src/generated\n",
+      );
+      fs.writeFileSync(
+        path.join(testDir, "src/nested/.gitignore"),
+        "*.gen.ts\n!keep.gen.ts\n",
+      );
+
+      const files = await findFiles(["**/*.ts"], {
+        cwd: testDir,
+        mode,
+        onError,
+        pollInterval,
+        gitignore: true,
+      });
+
+      expect(files.sort()).toEqual(["src/index.ts", "src/nested/keep.gen.ts"]);
+    });
+
+    it("should apply changed .gitignore files while watching", async () => {
+      await createFiles(
+        testDir,
+        `
+        └─ src
+           ├─ index.ts
+           └─ draft.ts
+        `,
+      );
+      fs.writeFileSync(path.join(testDir, ".gitignore"), "draft.ts\n");
+
+      const changes = createCallTracker<[FileChanges]>();
+      const destroy = await watch("src/**/*.ts", changes, {
+        cwd: testDir,
+        mode,
+        onError,
+        pollInterval,
+        gitignore: true,
+      });
+
+      const [{ added }] = await changes.latest();
+      expect([...added.keys()]).toEqual(["src/index.ts"]);
+
+      changes.reset();
+      fs.writeFileSync(path.join(testDir, ".gitignore"), "index.ts\n");
+      const [update] = await changes.first();
+      expect([...update.added.keys()]).toEqual(["src/draft.ts"]);
+      expect([...update.deleted.keys()]).toEqual(["src/index.ts"]);
+
+      destroy();
+    });
+
+    it("should find files through symbolic links when followSymbolicLinks is set", async () => {
+      await createFiles(
+        testDir,
+        `
+        └─ src
+           ├─ sym/link -> ../components
+           └─ components
+              ├─ button.ts
+              └─ card.ts
+        `,
+      );
+
+      const files = await findFiles(["**/*.ts"], {
+        cwd: testDir,
+        mode,
+        onError,
+        pollInterval,
+        followSymbolicLinks: true,
+      });
+
+      expect(files.sort()).toEqual([
+        "src/components/button.ts",
+        "src/components/card.ts",
+        "src/sym/link/button.ts",
+        "src/sym/link/card.ts",
+      ]);
+    });
+
+    it("should only follow symbolic links outside of the cwd when followSymbolicLinksOutsideCwd is set", async () => {
+      await createFiles(
+        testDir,
+        `
+        ├─ shared
+        │  └─ button.ts
+        └─ src
+           ├─ index.ts
+           └─ shared -> ../shared
+        `,
+      );
+      const options = {
+        cwd: path.join(testDir, "src"),
+        mode,
+        onError,
+        pollInterval,
+        followSymbolicLinks: true,
+      };
+
+      expect(await findFiles(["**/*.ts"], options)).toEqual(["index.ts"]);
+      expect(
+        (
+          await findFiles(["**/*.ts"], {
+            ...options,
+            followSymbolicLinksOutsideCwd: true,
+          })
+        ).sort(),
+      ).toEqual(["index.ts", "shared/button.ts"]);
+    });
+
+    it("should not follow symbolic link loops", async () => {
+      await createFiles(
+        testDir,
+        `
+        └─ src
+           ├─ index.ts
+           ├─ loop -> ..
+           └─ nested
+              └─ parent -> ..
+        `,
+      );
+
+      const files = await findFiles(["**/*.ts"], {
+        cwd: testDir,
+        mode,
+        onError,
+        pollInterval,
+        followSymbolicLinks: true,
+      });
+
+      expect(files).toEqual(["src/index.ts"]);
+    });
+
+    it("should report symbolic links as type l when reportSymbolicLinks is set", async () => {
+      await createFiles(
+        testDir,
+        `
+        └─ src
+           ├─ index.ts
+           └─ link.ts -> ./index.ts
+        `,
+      );
+
+      const changes = createCallTracker<[FileChanges]>();
+      const destroy = await watch("src/*.ts", changes, {
+        cwd: testDir,
+        mode,
+        onError,
+        pollInterval,
+        fields: ["type"],
+        reportSymbolicLinks: true,
+      });
+
+      const [{ added }] = await changes.latest();
+      expect(added.get("src/index.ts")?.type).toBe("f");
+      expect(added.get("src/link.ts")?.type).toBe("l");
+
+      changes.reset();
+      fs.symlinkSync("./index.ts", path.join(testDir, "src/other.ts"));
+      const [{ added: linked }] = await changes.first();
+      expect(linked.get("src/other.ts")?.type).toBe("l");
+
+      destroy();
+    });
+
+    it("should watch linked directories when followSymbolicLinks is set", async () => {
+      await createFiles(
+        testDir,
+        `
+        └─ src
+           ├─ linked -> ../packages/ui
+           └─ index.ts
+        └─ packages
+           └─ ui
+              └─ button.ts
+        `,
+      );
+
+      const changes = createCallTracker<[FileChanges]>();
+      const destroy = await watch("src/**/*.ts", changes, {
+        cwd: testDir,
+        mode,
+        onError,
+        pollInterval,
+        followSymbolicLinks: true,
+      });
+
+      const [{ added }] = await changes.latest();
+      expect([...added.keys()].sort()).toEqual([
+        "src/index.ts",
+        "src/linked/button.ts",
+      ]);
+
+      changes.reset();
+      fs.writeFileSync(path.join(testDir, "packages/ui/card.ts"), "card");
+      const [{ added: created }] = await changes.first();
+      expect([...created.keys()]).toEqual(["src/linked/card.ts"]);
+
+      destroy();
+    });
+
     it("should not find files through symbolic links outside of the cwd to directories", async () => {
       await createFiles(
         testDir,
@@ -418,6 +1452,8 @@ export function createWatcherTests(mode: WatcherMode) {
       const files = await findFiles(["**/*.ts"], {
         cwd: path.join(testDir, "src"),
         mode,
+        onError,
+        pollInterval,
       });
 
       expect(files).toHaveProperty("length", 1);
@@ -439,6 +1475,8 @@ export function createWatcherTests(mode: WatcherMode) {
       const files = await findFiles(["**/*.ts"], {
         cwd: testDir,
         mode,
+        onError,
+        pollInterval,
       });
 
       expect(files).toHaveProperty("length", 2);
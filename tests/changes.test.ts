@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import { createFileChanges, mergeFileChanges } from "../src/changes";
+import { FileChanges, FileInfo } from "../src/index";
+
+const info = (filePath: string, exists = true): FileInfo => ({
+  name: filePath.split("/").pop()!,
+  path: filePath,
+  exists,
+});
+
+const changesOf = (
+  kind: keyof FileChanges,
+  ...filePaths: string[]
+): FileChanges => {
+  const changes = createFileChanges();
+  for (const filePath of filePaths) {
+    changes[kind].set(filePath, info(filePath, kind !== "deleted"));
+  }
+  return changes;
+};
+
+const keysOf = (changes: FileChanges) => ({
+  added: [...changes.added.keys()],
+  deleted: [...changes.deleted.keys()],
+  changed: [...changes.changed.keys()],
+});
+
+describe("mergeFileChanges", () => {
+  it("should drop files that were added and deleted", () => {
+    const merged = mergeFileChanges(
+      changesOf("added", "a.ts", "b.ts"),
+      changesOf("deleted", "a.ts"),
+    );
+    expect(keysOf(merged)).toEqual({
+      added: ["b.ts"],
+      deleted: [],
+      changed: [],
+    });
+  });
+
+  it("should report files that were deleted and added again as changed", () => {
+    const merged = mergeFileChanges(
+      changesOf("deleted", "a.ts"),
+      changesOf("added", "a.ts"),
+    );
+    expect(keysOf(merged)).toEqual({
+      added: [],
+      deleted: [],
+      changed: ["a.ts"],
+    });
+  });
+
+  it("should keep added files added when they change", () => {
+    const merged = mergeFileChanges(
+      changesOf("added", "a.ts"),
+      changesOf("changed", "a.ts"),
+    );
+    expect(keysOf(merged)).toEqual({
+      added: ["a.ts"],
+      deleted: [],
+      changed: [],
+    });
+  });
+
+  it("should report changed files that were deleted as deleted", () => {
+    const merged = mergeFileChanges(
+      changesOf("changed", "a.ts"),
+      changesOf("deleted", "a.ts"),
+    );
+    expect(keysOf(merged)).toEqual({
+      added: [],
+      deleted: ["a.ts"],
+      changed: [],
+    });
+  });
+});
+
+describe("mergeFileChanges with renames", () => {
+  const renamedOf = (from: string, to: string): FileChanges => {
+    const changes = createFileChanges(true);
+    changes.renamed!.set(to, { from, info: info(to) });
+    return changes;
+  };
+
+  it("should follow a chain of renames back to the original path", () => {
+    const merged = mergeFileChanges(
+      renamedOf("a.ts", "b.ts"),
+      renamedOf("b.ts", "c.ts"),
+    );
+    expect([...merged.renamed!.entries()]).toEqual([
+      ["c.ts", { from: "a.ts", info: info("c.ts") }],
+    ]);
+  });
+
+  it("should report renamed files that were deleted at their original path", () => {
+    const merged = mergeFileChanges(
+      renamedOf("a.ts", "b.ts"),
+      changesOf("deleted", "b.ts"),
+    );
+    expect(merged.renamed!.size).toBe(0);
+    expect([...merged.deleted.keys()]).toEqual(["a.ts"]);
+  });
+
+  it("should report added files that were renamed as added", () => {
+    const merged = mergeFileChanges(
+      changesOf("added", "a.ts"),
+      renamedOf("a.ts", "b.ts"),
+    );
+    expect(keysOf(merged)).toEqual({
+      added: ["b.ts"],
+      deleted: [],
+      changed: [],
+    });
+    expect(merged.renamed!.size).toBe(0);
+  });
+});
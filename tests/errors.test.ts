@@ -0,0 +1,76 @@
+import { describe, it, expect, vi } from "vitest";
+import { reportError, toWatchError } from "../src/errors";
+import {
+  PermissionDeniedError,
+  SubscriptionFailedError,
+  WatchError,
+  WatchLimitExceededError,
+} from "../src/index";
+
+const fsError = (code: string) =>
+  Object.assign(new Error(`${code}: failed`), { code });
+
+describe("toWatchError", () => {
+  it("should map watch limit errors", () => {
+    for (const code of ["ENOSPC", "EMFILE", "ENFILE"]) {
+      const error = toWatchError("Failed to watch directory src", {
+        backend: "native",
+        path: "src",
+        cause: fsError(code),
+      });
+      expect(error).toBeInstanceOf(WatchLimitExceededError);
+      expect(error).toMatchObject({
+        name: "WatchLimitExceededError",
+        backend: "native",
+        path: "src",
+        recoverable: true,
+      });
+    }
+  });
+
+  it("should include the limit which was hit", () => {
+    const error = toWatchError("Failed to watch directory src", {
+      backend: "native",
+      cause: fsError("ENOSPC"),
+    }) as WatchLimitExceededError;
+    expect(error.limit).toMatchObject({
+      name: "fs.inotify.max_user_watches",
+    });
+    expect(error.limit!.suggested).toBeGreaterThanOrEqual(524288);
+  });
+
+  it("should map permission errors", () => {
+    const error = toWatchError("Failed to watch directory src", {
+      backend: "native",
+      path: "src",
+      cause: fsError("EACCES"),
+    });
+    expect(error).toBeInstanceOf(PermissionDeniedError);
+  });
+
+  it("should fall back to WatchError for other errors", () => {
+    const cause = fsError("EIO");
+    const error = toWatchError("Failed", { backend: "native", cause });
+    expect(error.constructor).toBe(WatchError);
+    expect(error.cause).toBe(cause);
+  });
+});
+
+describe("reportError", () => {
+  it("should pass errors to onError instead of logging them", () => {
+    const consoleError = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    const onError = vi.fn();
+    const error = new SubscriptionFailedError("Failed to subscribe", {
+      backend: "watchman",
+    });
+
+    reportError(error, { onError });
+
+    expect(onError).toHaveBeenCalledWith(error);
+    expect(consoleError).not.toHaveBeenCalled();
+    expect(error.recoverable).toBe(false);
+    consoleError.mockRestore();
+  });
+});
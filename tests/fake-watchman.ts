@@ -0,0 +1,126 @@
+import { EventEmitter } from "events";
+
+/**
+ * A file as the fake daemon lists it
+ */
+export interface FakeFile {
+  name: string;
+  exists?: boolean;
+  type?: string;
+  size?: number;
+  mtime_ms?: number;
+}
+
+/**
+ * The state of the fake watchman daemon used with `vi.mock("fb-watchman")`
+ *
+ * @example
+ * vi.mock("fb-watchman", async () => ({
+ *   default: { Client: (await import("./fake-watchman")).FakeClient },
+ * }));
+ */
+export const fakeWatchman = {
+  clients: [] as FakeClient[],
+  /** Connections fail while the daemon is not running */
+  isRunning: true,
+  /** All files - listed in the first response of a subscription */
+  files: [] as FakeFile[],
+  /** Listed by a subscription with a `since` clock of the same instance */
+  changesSinceClock: [] as FakeFile[],
+  /** Incremented by a restart - older clocks are unknown */
+  instance: 1,
+  reset() {
+    this.clients = [];
+    this.isRunning = true;
+    this.files = [];
+    this.changesSinceClock = [];
+    this.instance = 1;
+  },
+  /** Close all connections like a restarted daemon */
+  restart() {
+    this.instance++;
+    for (const client of this.clients) {
+      client.disconnect();
+    }
+  },
+};
+
+export class FakeClient extends EventEmitter {
+  commands: unknown[][] = [];
+  isEnded = false;
+  /** Callbacks of commands without a response yet */
+  private pending = new Set<(error: Error | null, resp: unknown) => void>();
+
+  constructor() {
+    super();
+    fakeWatchman.clients.push(this);
+  }
+
+  capabilityCheck(_options: unknown, callback: (error: Error | null) => void) {
+    this.pending.add(callback);
+    setImmediate(() => {
+      if (!this.pending.delete(callback)) {
+        return;
+      }
+      if (!fakeWatchman.isRunning) {
+        // Like fb-watchman: the check fails with the error of the socket
+        // unless the client is ended while it handles that error
+        const error = new Error("connect ENOENT");
+        this.pending.add(callback);
+        this.emit("error", error);
+        if (this.pending.delete(callback)) {
+          callback(error);
+        }
+        return;
+      }
+      this.emit("connect");
+      callback(null);
+    });
+  }
+
+  command(args: any[], callback: (error: Error | null, resp: unknown) => void) {
+    this.commands.push(args);
+    setImmediate(() => {
+      if (this.isEnded) {
+        callback(new Error("The client was ended"), undefined);
+        return;
+      }
+      if (args[0] === "watch-project") {
+        callback(null, { watch: "/project" });
+        return;
+      }
+      callback(null, {});
+      if (args[0] === "subscribe") {
+        const since: string | undefined = args[3].since;
+        const isFreshInstance =
+          !since || !since.startsWith(`c:${fakeWatchman.instance}:`);
+        this.emit("subscription", {
+          subscription: args[2],
+          clock: `c:${fakeWatchman.instance}:${Date.now()}`,
+          is_fresh_instance: isFreshInstance,
+          files: isFreshInstance
+            ? fakeWatchman.files
+            : fakeWatchman.changesSinceClock,
+        });
+      }
+    });
+  }
+
+  /** The socket was closed by the daemon */
+  disconnect() {
+    if (!this.isEnded) {
+      this.isEnded = true;
+      this.emit("end");
+    }
+  }
+
+  end() {
+    // fb-watchman cancels the commands which are still waiting
+    const pending = [...this.pending];
+    this.pending.clear();
+    for (const callback of pending) {
+      callback(new Error("The client was ended"), undefined);
+    }
+    this.disconnect();
+  }
+}
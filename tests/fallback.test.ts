@@ -1,4 +1,10 @@
-import { vi } from "vitest";
+import { describe, it, expect, vi } from "vitest";
+import {
+  watch,
+  ModeSelection,
+  WatchError,
+  WatchmanUnavailableError,
+} from "../src/index";
 import { createWatcherTests } from "./base";
 
 // Mock fb-watchman to simulate it not being available
@@ -6,13 +12,62 @@ vi.mock("fb-watchman", () => {
   return { default: null };
 });
 
-vi.mock("../src/errors.ts", () => {
-  return {
-    logError: vi.fn(),
-  };
-});
-
 // Run the base test suite for fallback watcher
 // Since it falls back to native when watchman is unavailable, we can use "watchman" mode
 // which will internally fall back to native
 createWatcherTests("watchman");
+
+describe("watchman fallback", () => {
+  it("should report why watchman was skipped", async () => {
+    const selections: ModeSelection[] = [];
+    const destroy = await watch("**/*.ts", () => {}, {
+      mode: "watchman",
+      onError: () => {},
+      onModeSelected: (selection) => selections.push(selection),
+    });
+
+    expect(selections).toEqual([
+      {
+        requested: "watchman",
+        mode: "native",
+        fallbacks: [
+          { mode: "watchman", reason: "fb-watchman is not installed" },
+        ],
+      },
+    ]);
+    destroy();
+  });
+
+  it("should use native to follow symbolic links", async () => {
+    const selections: ModeSelection[] = [];
+    const destroy = await watch("**/*.ts", () => {}, {
+      mode: "watchman",
+      followSymbolicLinks: true,
+      onError: () => {},
+      onModeSelected: (selection) => selections.push(selection),
+    });
+
+    expect(selections[0].mode).toBe("native");
+    expect(selections[0].fallbacks).toEqual([
+      { mode: "watchman", reason: "Watchman can't follow symbolic links" },
+    ]);
+    destroy();
+  });
+
+  it("should pass the watchman error to onError", async () => {
+    const errors: WatchError[] = [];
+    const destroy = await watch("**/*.ts", () => {}, {
+      mode: "auto",
+      onError: (error) => errors.push(error),
+    });
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toBeInstanceOf(WatchmanUnavailableError);
+    expect(errors[0]).toMatchObject({
+      backend: "watchman",
+      recoverable: true,
+      message: "fb-watchman is not installed",
+    });
+    destroy();
+  });
+});
@@ -1,5 +1,11 @@
-import { describe, it, expect, beforeEach, afterEach } from "vitest";
-import { watch, findFiles } from "../src/index";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  watch,
+  watchIterable,
+  findFiles,
+  findFilesStream,
+  FileChanges,
+} from "../src/index";
 import {
   createTestDir,
   createFiles,
@@ -7,6 +13,7 @@ import {
   createCallTracker,
 } from "./utils";
 import path from "path";
+import { createHash } from "crypto";
 
 describe("Fast-glob watcher", () => {
   let testDir: string;
@@ -303,4 +310,100 @@ describe("Fast-glob watcher", () => {
       expect(fileInfo).toHaveProperty("path");
     });
   });
+
+  it("should include the content hash when the sha1 field is requested", async () => {
+    await createFiles(
+      testDir,
+      `
+      └─ src
+         └─ index.ts
+    `,
+    );
+
+    const changes = createCallTracker<[any]>();
+
+    await watch("**/*.ts", changes, {
+      cwd: testDir,
+      mode: "fast-glob",
+      fields: ["sha1"],
+    });
+
+    const [{ added }] = await changes.latest();
+    expect(added.get("src/index.ts").sha1).toBe(
+      createHash("sha1").update("index.ts").digest("hex"),
+    );
+  });
+
+  it("should stream files with their content hash", async () => {
+    await createFiles(
+      testDir,
+      `
+      └─ src
+         └─ index.ts
+    `,
+    );
+
+    const files = [];
+    for await (const file of findFilesStream("**/*.ts", {
+      cwd: testDir,
+      mode: "fast-glob",
+      fields: ["sha1"],
+      absolute: true,
+    })) {
+      files.push(file);
+    }
+
+    expect(files).toEqual([
+      {
+        name: "index.ts",
+        path: path.join(testDir, "src/index.ts"),
+        exists: true,
+        sha1: createHash("sha1").update("index.ts").digest("hex"),
+      },
+    ]);
+  });
+
+  it("should skip the scan with ignoreInitial and call onReady", async () => {
+    await createFiles(
+      testDir,
+      `
+      └─ src
+         └─ index.ts
+    `,
+    );
+
+    const changes = createCallTracker<[FileChanges]>();
+    const onReady = vi.fn();
+    await watch("**/*.ts", changes, {
+      cwd: testDir,
+      mode: "fast-glob",
+      ignoreInitial: true,
+      onReady,
+    });
+
+    expect(changes.count).toBe(0);
+    expect(onReady).toHaveBeenCalledTimes(1);
+    expect([...onReady.mock.calls[0][0].keys()]).toEqual(["src/index.ts"]);
+  });
+
+  it("should end watchIterable after the one-time scan", async () => {
+    await createFiles(
+      testDir,
+      `
+      └─ src
+         └─ index.ts
+    `,
+    );
+
+    const batches: FileChanges[] = [];
+    for await (const changes of watchIterable("**/*.ts", {
+      cwd: testDir,
+      mode: "fast-glob",
+    })) {
+      batches.push(changes);
+    }
+
+    expect(batches).toHaveLength(1);
+    expect([...batches[0].added.keys()]).toEqual(["src/index.ts"]);
+  });
 });
@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { loadGitignore } from "../src/gitignore";
+import { createTestDir, cleanupDir } from "./utils";
+import fs from "fs";
+import path from "path";
+
+describe("loadGitignore", () => {
+  let testDir: string;
+
+  const writeGitignore = (dirPath: string, content: string) => {
+    fs.mkdirSync(path.join(testDir, dirPath), { recursive: true });
+    fs.writeFileSync(path.join(testDir, dirPath, ".gitignore"), content);
+  };
+
+  beforeEach(() => {
+    testDir = createTestDir("gitignore-test");
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    cleanupDir(testDir);
+  });
+
+  it("should match unanchored patterns at any depth", async () => {
+    writeGitignore("", "*.log\n# comment\n\ntmp\n");
+    const { isIgnored } = await loadGitignore(testDir);
+
+    expect(isIgnored("debug.log", false)).toBe(true);
+    expect(isIgnored("src/deep/debug.log", false)).toBe(true);
+    expect(isIgnored("src/tmp", true)).toBe(true);
+    expect(isIgnored("src/tmp/file.ts", false)).toBe(true);
+    expect(isIgnored("src/index.ts", false)).toBe(false);
+    expect(isIgnored("# comment", false)).toBe(false);
+  });
+
+  it("should anchor patterns with a slash to the .gitignore directory", async () => {
+    writeGitignore("", "/build\nsrc/generated\n");
+    const { isIgnored } = await loadGitignore(testDir);
+
+    expect(isIgnored("build/index.js", false)).toBe(true);
+    expect(isIgnored("src/build/index.js", false)).toBe(false);
+    expect(isIgnored("src/generated/api.ts", false)).toBe(true);
+    expect(isIgnored("lib/src/generated/api.ts", false)).toBe(false);
+  });
+
+  it("should only match directories with a trailing slash", async () => {
+    writeGitignore("", "out/\n");
+    const { isIgnored } = await loadGitignore(testDir);
+
+    expect(isIgnored("out", true)).toBe(true);
+    expect(isIgnored("out", false)).toBe(false);
+    expect(isIgnored("out/index.js", false)).toBe(true);
+  });
+
+  it("should re-include negated paths unless a parent directory is ignored", async () => {
+    writeGitignore("", "*.env\n!example.env\nsecrets/\n!secrets/public.txt\n");
+    const { isIgnored } = await loadGitignore(testDir);
+
+    expect(isIgnored("prod.env", false)).toBe(true);
+    expect(isIgnored("example.env", false)).toBe(false);
+    expect(isIgnored("secrets/public.txt", false)).toBe(true);
+  });
+
+  it("should give nested .gitignore files a higher precedence", async () => {
+    writeGitignore("", "*.gen.ts\n");
+    writeGitignore("src", "!keep.gen.ts\n");
+    const { isIgnored, files } = await loadGitignore(testDir);
+
+    expect(isIgnored("keep.gen.ts", false)).toBe(true);
+    expect(isIgnored("src/keep.gen.ts", false)).toBe(false);
+    expect(isIgnored("src/other.gen.ts", false)).toBe(true);
+    expect(files).toContain(path.join(testDir, "src", ".gitignore"));
+  });
+
+  it("should not read .gitignore files in ignored directories", async () => {
+    writeGitignore("", "vendor/\n");
+    writeGitignore("vendor", "!*\n");
+    const { isIgnored, files } = await loadGitignore(testDir);
+
+    expect(isIgnored("vendor/lib.ts", false)).toBe(true);
+    expect(files).not.toContain(path.join(testDir, "vendor", ".gitignore"));
+  });
+
+  it("should only create ignore patterns for rules a negation can't undo", async () => {
+    writeGitignore("", "node_modules\n*.env\n!example.env\n");
+    const { ignorePatterns } = await loadGitignore(testDir);
+
+    expect(ignorePatterns).toContain("**/node_modules");
+    expect(ignorePatterns).toContain("**/node_modules/**");
+    expect(ignorePatterns).not.toContain("**/*.env");
+  });
+
+  it("should only read the changed files when reloading", async () => {
+    writeGitignore("", "*.log\n");
+    writeGitignore("src", "*.tmp\n");
+    const gitignore = await loadGitignore(testDir);
+    const readFile = vi.spyOn(fs.promises, "readFile");
+    const readdir = vi.spyOn(fs.promises, "readdir");
+
+    writeGitignore("src", "*.bak\n");
+    const { isIgnored } = await gitignore.reload([
+      path.join(testDir, "src", ".gitignore"),
+    ]);
+
+    expect(readFile.mock.calls.map(([filePath]) => filePath)).toEqual([
+      path.join(testDir, "src", ".gitignore"),
+    ]);
+    expect(readdir).not.toHaveBeenCalled();
+    expect(isIgnored("src/debug.log", false)).toBe(true);
+    expect(isIgnored("src/index.bak", false)).toBe(true);
+    expect(isIgnored("src/index.tmp", false)).toBe(false);
+    // The previous rules stay untouched
+    expect(gitignore.isIgnored("src/index.tmp", false)).toBe(true);
+  });
+
+  it("should apply created and removed files when reloading", async () => {
+    writeGitignore("", "vendor/\n");
+    writeGitignore("vendor", "*.js\n");
+    writeGitignore("lib", "*.map\n");
+    const gitignore = await loadGitignore(testDir);
+
+    writeGitignore("", "");
+    writeGitignore("src", "*.tmp\n");
+    fs.rmSync(path.join(testDir, "lib", ".gitignore"));
+    const { isIgnored, files } = await gitignore.reload([
+      path.join(testDir, ".gitignore"),
+      path.join(testDir, "src", ".gitignore"),
+      path.join(testDir, "lib", ".gitignore"),
+    ]);
+
+    expect(isIgnored("src/index.tmp", false)).toBe(true);
+    expect(isIgnored("lib/index.map", false)).toBe(false);
+    // The directory which is no longer ignored was searched
+    expect(isIgnored("vendor/index.js", false)).toBe(true);
+    expect(isIgnored("vendor/index.ts", false)).toBe(false);
+    expect(files).toContain(path.join(testDir, "vendor", ".gitignore"));
+    expect(files).not.toContain(path.join(testDir, "lib", ".gitignore"));
+  });
+});
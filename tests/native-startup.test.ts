@@ -0,0 +1,104 @@
+import fs from "node:fs";
+import path from "node:path";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { watch, FileChanges } from "../src/index";
+import {
+  createTestDir,
+  createFiles,
+  cleanupDir,
+  createCallTracker,
+} from "./utils";
+
+// Changes which happen after fast-glob read the directories
+const afterScan = vi.hoisted(() => ({
+  run: undefined as (() => void) | undefined,
+}));
+
+vi.mock("../src/watchers/fast-glob.ts", async (importOriginal) => {
+  const original =
+    await importOriginal<typeof import("../src/watchers/fast-glob.ts")>();
+  return {
+    ...original,
+    scan: async (...args: Parameters<typeof original.scan>) => {
+      const files = await original.scan(...args);
+      afterScan.run?.();
+      // Let the watchers see the changes before the scan resolves
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      return files;
+    },
+  };
+});
+
+describe.each([false, true])(
+  "native initial scan (recursiveWatch: %s)",
+  (recursiveWatch) => {
+    let testDir: string;
+
+    beforeEach(async () => {
+      testDir = createTestDir("native-startup-test");
+      await createFiles(
+        testDir,
+        `
+      └─ src
+         ├─ index.ts
+         ├─ removed.ts
+         └─ utils
+            └─ format.ts
+    `,
+      );
+    });
+
+    afterEach(() => {
+      afterScan.run = undefined;
+      cleanupDir(testDir);
+    });
+
+    it("should report changes made during the initial scan", async () => {
+      afterScan.run = () => {
+        fs.writeFileSync(path.join(testDir, "src/added.ts"), "");
+        fs.mkdirSync(path.join(testDir, "src/new"));
+        fs.writeFileSync(path.join(testDir, "src/new/nested.ts"), "");
+        fs.rmSync(path.join(testDir, "src/removed.ts"));
+      };
+      const changes = createCallTracker<[FileChanges]>();
+      const watcher = await watch("src/**/*.ts", changes, {
+        cwd: testDir,
+        mode: "native",
+        recursiveWatch,
+      });
+
+      const [{ added, deleted, changed }] = await changes.first();
+      expect([...added.keys()].sort()).toEqual([
+        "src/added.ts",
+        "src/index.ts",
+        "src/new/nested.ts",
+        "src/utils/format.ts",
+      ]);
+      expect(deleted.size).toBe(0);
+      expect(changed.size).toBe(0);
+
+      // Late events of the reconciled files are no changes
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(changes.count).toBe(1);
+      watcher();
+    });
+
+    it("should report files changed during the initial scan with their new content", async () => {
+      afterScan.run = () => {
+        fs.writeFileSync(path.join(testDir, "src/index.ts"), "export {};");
+      };
+      const changes = createCallTracker<[FileChanges]>();
+      const watcher = await watch("src/**/*.ts", changes, {
+        cwd: testDir,
+        mode: "native",
+        recursiveWatch,
+        fields: ["size"],
+      });
+
+      const [{ added, changed }] = await changes.first();
+      expect(added.get("src/index.ts")?.size).toBe(10);
+      expect(changed.size).toBe(0);
+      watcher();
+    });
+  },
+);
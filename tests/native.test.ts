@@ -1,4 +1,509 @@
+import fs from "node:fs";
+import path from "node:path";
+import { createHash } from "node:crypto";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  watch,
+  FileChanges,
+  WatchError,
+  WatchLimitExceededError,
+} from "../src/index";
 import { createWatcherTests } from "./base.ts";
+import {
+  createTestDir,
+  createFiles,
+  cleanupDir,
+  createCallTracker,
+} from "./utils";
 
 // Run the base test suite for native watcher
 createWatcherTests("native");
+
+// Recursive watches need a watch for every entry below the base on Linux
+const hasRecursiveWatch =
+  process.platform === "darwin" || process.platform === "win32";
+
+describe("native recursive watching", () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = createTestDir("native-recursive-test");
+    await createFiles(
+      testDir,
+      `
+      └─ src
+         ├─ index.ts
+         ├─ components
+         │  └─ forms
+         │     └─ input.ts
+         └─ utils
+            └─ format.ts
+    `,
+    );
+  });
+
+  afterEach(() => {
+    cleanupDir(testDir);
+  });
+
+  it("should watch a pattern base with a single recursive watcher", async () => {
+    const changes = createCallTracker<[FileChanges]>();
+    const watcher = await watch("src/**/*.ts", changes, {
+      cwd: testDir,
+      mode: "native",
+      recursiveWatch: true,
+    });
+    // src and its 6 entries on Linux
+    expect(watcher.getMetrics()).toEqual({
+      handles: hasRecursiveWatch ? 1 : 7,
+      events: 0,
+      recursive: true,
+      polled: 0,
+    });
+
+    changes.reset();
+    await createFiles(
+      testDir,
+      `
+      └─ src
+         └─ components
+            └─ forms
+               └─ select.ts
+    `,
+    );
+
+    const [{ added }] = await changes.first();
+    expect([...added.keys()]).toEqual(["src/components/forms/select.ts"]);
+    expect(watcher.getMetrics().events).toBeGreaterThan(0);
+
+    // The handles are counted without reading the directories again
+    const readdir = vi.spyOn(fs, "readdirSync");
+    expect(watcher.getMetrics().handles).toBe(hasRecursiveWatch ? 1 : 8);
+    expect(readdir).not.toHaveBeenCalled();
+    readdir.mockRestore();
+
+    fs.rmSync(path.join(testDir, "src/components"), { recursive: true });
+    await vi.waitFor(() =>
+      expect(watcher.getMetrics().handles).toBe(hasRecursiveWatch ? 1 : 4),
+    );
+    watcher();
+  });
+
+  it("should cover nested pattern bases with the watcher of their parent", async () => {
+    const watcher = await watch(
+      ["src/**/*.ts", "src/components/**/*.ts"],
+      () => {},
+      { cwd: testDir, mode: "native", recursiveWatch: true },
+    );
+
+    expect(watcher.getMetrics().handles).toBe(hasRecursiveWatch ? 1 : 7);
+    watcher();
+  });
+
+  it("should watch every directory without recursiveWatch", async () => {
+    const watcher = await watch("src/**/*.ts", () => {}, {
+      cwd: testDir,
+      mode: "native",
+      recursiveWatch: false,
+    });
+
+    // src, src/components, src/components/forms and src/utils
+    expect(watcher.getMetrics()).toEqual({
+      handles: 4,
+      events: 0,
+      recursive: false,
+      polled: 0,
+    });
+    watcher();
+  });
+
+  it.runIf(!hasRecursiveWatch)(
+    "should watch every directory by default without recursive watches",
+    async () => {
+      const watcher = await watch("src/**/*.ts", () => {}, {
+        cwd: testDir,
+        mode: "native",
+      });
+
+      expect(watcher.getMetrics()).toMatchObject({
+        handles: 4,
+        recursive: false,
+      });
+      watcher();
+    },
+  );
+});
+
+describe("native content hashes", () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = createTestDir("native-hashes-test");
+    await createFiles(
+      testDir,
+      `
+      └─ src
+         └─ index.ts
+    `,
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    cleanupDir(testDir);
+  });
+
+  it("should hash changed files without blocking reads", async () => {
+    const changes = createCallTracker<[FileChanges]>();
+    const watcher = await watch("src/**/*.ts", changes, {
+      cwd: testDir,
+      mode: "native",
+      fields: ["sha1"],
+    });
+    changes.reset();
+    const readFileSync = vi.spyOn(fs, "readFileSync");
+
+    fs.writeFileSync(path.join(testDir, "src/added.ts"), "content");
+
+    const [{ added }] = await changes.first();
+    expect(added.get("src/added.ts")?.sha1).toBe(
+      createHash("sha1").update("content").digest("hex"),
+    );
+    expect(readFileSync).not.toHaveBeenCalled();
+    watcher();
+  });
+});
+
+describe("native watch limits", () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = createTestDir("native-limits-test");
+    await createFiles(
+      testDir,
+      `
+      └─ src
+         ├─ index.ts
+         └─ utils
+            └─ format.ts
+    `,
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    cleanupDir(testDir);
+  });
+
+  it("should poll directories which can't be watched because of the limit", async () => {
+    // src/utils runs into the inotify limit
+    const fsWatch = fs.watch;
+    const utilsPath = path.join(testDir, "src", "utils");
+    vi.spyOn(fs, "watch").mockImplementation(((...args: unknown[]) => {
+      if (args[0] === utilsPath) {
+        throw Object.assign(new Error("ENOSPC: System limit reached"), {
+          code: "ENOSPC",
+        });
+      }
+      return (fsWatch as (...args: unknown[]) => fs.FSWatcher)(...args);
+    }) as typeof fs.watch);
+    const errors: WatchError[] = [];
+    const changes = createCallTracker<[FileChanges]>();
+    const watcher = await watch("src/**/*.ts", changes, {
+      cwd: testDir,
+      mode: "native",
+      recursiveWatch: false,
+      pollInterval: 20,
+      onError: (error) => errors.push(error),
+    });
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toBeInstanceOf(WatchLimitExceededError);
+    expect(errors[0]).toMatchObject({
+      path: utilsPath,
+      recoverable: true,
+      limit: { name: "fs.inotify.max_user_watches" },
+    });
+    expect(errors[0].message).toContain(`polling ${utilsPath} instead`);
+    expect(watcher.getMetrics()).toMatchObject({ handles: 1, polled: 1 });
+
+    changes.reset();
+    await createFiles(
+      testDir,
+      `
+      └─ src
+         └─ utils
+            └─ parse.ts
+    `,
+    );
+
+    const [{ added }] = await changes.first();
+    expect([...added.keys()]).toEqual(["src/utils/parse.ts"]);
+    watcher();
+  });
+});
+
+describe.each([false, true])(
+  "native directory changes (recursiveWatch: %s)",
+  (recursiveWatch) => {
+    let testDir: string;
+
+    beforeEach(async () => {
+      testDir = createTestDir("native-directories-test");
+      await createFiles(
+        testDir,
+        `
+      └─ src
+         ├─ index.ts
+         └─ components
+            ├─ button.ts
+            └─ forms
+               └─ input.ts
+    `,
+      );
+    });
+
+    afterEach(() => {
+      cleanupDir(testDir);
+    });
+
+    /**
+     * Watch src and merge all reported changes into one object
+     */
+    const watchSrc = async () => {
+      const reported: FileChanges = {
+        added: new Map(),
+        deleted: new Map(),
+        changed: new Map(),
+      };
+      const watcher = await watch(
+        "src/**/*.ts",
+        (changes) => {
+          for (const key of ["added", "deleted", "changed"] as const) {
+            changes[key].forEach((info, filePath) =>
+              reported[key].set(filePath, info),
+            );
+          }
+        },
+        { cwd: testDir, mode: "native", recursiveWatch },
+      );
+      reported.added.clear();
+      return { watcher, reported };
+    };
+
+    it("should report all files of a removed directory as deleted", async () => {
+      const { watcher, reported } = await watchSrc();
+      const handles = watcher.getMetrics().handles;
+
+      fs.rmSync(path.join(testDir, "src/components"), { recursive: true });
+
+      await vi.waitFor(() =>
+        expect([...reported.deleted.keys()].sort()).toEqual([
+          "src/components/button.ts",
+          "src/components/forms/input.ts",
+        ]),
+      );
+      expect(watcher.getWatchedFiles().size).toBe(1);
+      if (!recursiveWatch) {
+        // src/components and src/components/forms
+        expect(watcher.getMetrics().handles).toBe(handles - 2);
+      }
+      watcher();
+    });
+
+    it("should report the files of a moved directory at their new path", async () => {
+      const { watcher, reported } = await watchSrc();
+
+      fs.renameSync(
+        path.join(testDir, "src/components"),
+        path.join(testDir, "src/ui"),
+      );
+
+      await vi.waitFor(() => {
+        expect([...reported.deleted.keys()].sort()).toEqual([
+          "src/components/button.ts",
+          "src/components/forms/input.ts",
+        ]);
+        expect([...reported.added.keys()].sort()).toEqual([
+          "src/ui/button.ts",
+          "src/ui/forms/input.ts",
+        ]);
+      });
+      expect([...watcher.getWatchedFiles().keys()].sort()).toEqual([
+        "src/index.ts",
+        "src/ui/button.ts",
+        "src/ui/forms/input.ts",
+      ]);
+      watcher();
+    });
+
+    it("should rescan a removed directory once it is created again", async () => {
+      const { watcher, reported } = await watchSrc();
+      const components = path.join(testDir, "src/components");
+      const backup = path.join(testDir, "components");
+      fs.renameSync(components, backup);
+      await vi.waitFor(() => expect(reported.deleted.size).toBe(2));
+
+      fs.renameSync(backup, components);
+
+      await vi.waitFor(() =>
+        expect([...reported.added.keys()].sort()).toEqual([
+          "src/components/button.ts",
+          "src/components/forms/input.ts",
+        ]),
+      );
+      watcher();
+    });
+
+    it("should watch the pattern base again once it is removed and recreated", async () => {
+      const { watcher, reported } = await watchSrc();
+
+      fs.rmSync(path.join(testDir, "src"), { recursive: true });
+
+      await vi.waitFor(() =>
+        expect([...reported.deleted.keys()].sort()).toEqual([
+          "src/components/button.ts",
+          "src/components/forms/input.ts",
+          "src/index.ts",
+        ]),
+      );
+      expect(watcher.getWatchedFiles().size).toBe(0);
+      // Only the watcher which waits for src to be created again
+      await vi.waitFor(() => expect(watcher.getMetrics().handles).toBe(1));
+      expect(watcher.getMetrics().recursive).toBe(false);
+
+      await createFiles(
+        testDir,
+        `
+      └─ src
+         └─ sub
+            └─ a.ts
+    `,
+      );
+
+      await vi.waitFor(() =>
+        expect([...reported.added.keys()]).toEqual(["src/sub/a.ts"]),
+      );
+      expect([...watcher.getWatchedFiles().keys()]).toEqual(["src/sub/a.ts"]);
+      watcher();
+    });
+  },
+);
+
+describe.each([false, true])(
+  "native new directories (recursiveWatch: %s)",
+  (recursiveWatch) => {
+    let testDir: string;
+
+    beforeEach(async () => {
+      testDir = createTestDir("native-new-directories-test");
+      await createFiles(
+        testDir,
+        `
+      └─ src
+         └─ index.ts
+    `,
+      );
+    });
+
+    afterEach(() => {
+      cleanupDir(testDir);
+    });
+
+    it("should report files written right after their directories were created", async () => {
+      const changes = createCallTracker<[FileChanges]>();
+      const watcher = await watch("src/**/*.ts", changes, {
+        cwd: testDir,
+        mode: "native",
+        recursiveWatch,
+      });
+      changes.reset();
+
+      // Like `mkdir -p src/a/b && touch src/a/b/x.ts`
+      fs.mkdirSync(path.join(testDir, "src/a/b"), { recursive: true });
+      fs.writeFileSync(path.join(testDir, "src/a/b/x.ts"), "");
+      fs.writeFileSync(path.join(testDir, "src/a/y.ts"), "");
+
+      await vi.waitFor(() =>
+        expect([...watcher.getWatchedFiles().keys()].sort()).toEqual([
+          "src/a/b/x.ts",
+          "src/a/y.ts",
+          "src/index.ts",
+        ]),
+      );
+      // Give late watcher events the chance to show up
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      const reported = changes.all.flatMap(([{ added, changed }]) => [
+        ...[...added.keys()].map((filePath) => `added ${filePath}`),
+        ...[...changed.keys()].map((filePath) => `changed ${filePath}`),
+      ]);
+      expect(reported.sort()).toEqual([
+        "added src/a/b/x.ts",
+        "added src/a/y.ts",
+      ]);
+      watcher();
+    });
+
+    it("should report the files of a pattern base which is created later", async () => {
+      const changes = createCallTracker<[FileChanges]>();
+      const watcher = await watch("lib/**/*.ts", changes, {
+        cwd: testDir,
+        mode: "native",
+        recursiveWatch,
+      });
+      changes.reset();
+
+      fs.mkdirSync(path.join(testDir, "lib/utils"), { recursive: true });
+      fs.writeFileSync(path.join(testDir, "lib/utils/format.ts"), "");
+
+      await vi.waitFor(() =>
+        expect([...watcher.getWatchedFiles().keys()]).toEqual([
+          "lib/utils/format.ts",
+        ]),
+      );
+      watcher();
+    });
+
+    it("should report the files of a moved directory only as renamed", async () => {
+      await createFiles(
+        testDir,
+        `
+      └─ src
+         └─ sub
+            └─ a.ts
+    `,
+      );
+      const changes = createCallTracker<[FileChanges]>();
+      const watcher = await watch("src/**/*.ts", changes, {
+        cwd: testDir,
+        mode: "native",
+        recursiveWatch,
+        renames: true,
+      });
+      changes.reset();
+
+      fs.renameSync(
+        path.join(testDir, "src/sub"),
+        path.join(testDir, "src/moved"),
+      );
+
+      await vi.waitFor(() =>
+        expect(watcher.getWatchedFiles().has("src/moved/a.ts")).toBe(true),
+      );
+      // Give late watcher events the chance to show up
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      const reported = changes.all.flatMap(
+        ([{ added, deleted, changed, renamed }]) => [
+          ...[...added.keys()].map((filePath) => `added ${filePath}`),
+          ...[...deleted.keys()].map((filePath) => `deleted ${filePath}`),
+          ...[...changed.keys()].map((filePath) => `changed ${filePath}`),
+          ...[...renamed!].map(
+            ([filePath, { from }]) => `renamed ${from} ${filePath}`,
+          ),
+        ],
+      );
+      expect(reported).toEqual(["renamed src/sub/a.ts src/moved/a.ts"]);
+      watcher();
+    });
+  },
+);
@@ -0,0 +1,82 @@
+import fs from "node:fs";
+import path from "node:path";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { watch, FileChanges } from "../src/index";
+import {
+  createTestDir,
+  createFiles,
+  cleanupDir,
+  createCallTracker,
+} from "./utils";
+import { createWatcherTests } from "./base.ts";
+
+// Full scans with fast-glob
+const scans = vi.hoisted(() => ({ count: 0 }));
+
+vi.mock("../src/watchers/fast-glob.ts", async (importOriginal) => {
+  const original =
+    await importOriginal<typeof import("../src/watchers/fast-glob.ts")>();
+  return {
+    ...original,
+    scanWithStats: (...args: Parameters<typeof original.scanWithStats>) => {
+      scans.count++;
+      return original.scanWithStats(...args);
+    },
+  };
+});
+
+// Run the base test suite for the polling watcher
+createWatcherTests("poll");
+
+describe("poll watcher without full scans", () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = createTestDir("poll-scan-test");
+    await createFiles(
+      testDir,
+      `
+      └─ src
+         ├─ index.ts
+         └─ nested
+            └─ button.ts
+      `,
+    );
+    scans.count = 0;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    cleanupDir(testDir);
+  });
+
+  it("should only list the directories which changed", async () => {
+    const changes = createCallTracker<[FileChanges]>();
+    const destroy = await watch("src/**/*.ts", changes, {
+      cwd: testDir,
+      mode: "poll",
+      pollInterval: 20,
+      gitignore: true,
+    });
+    await changes.first();
+    const readdir = vi.spyOn(fs.promises, "readdir");
+
+    changes.reset();
+    fs.writeFileSync(path.join(testDir, "src/index.ts"), "export {};");
+    const [update] = await changes.first();
+    expect([...update.changed.keys()]).toEqual(["src/index.ts"]);
+    expect(readdir).not.toHaveBeenCalled();
+
+    changes.reset();
+    fs.writeFileSync(path.join(testDir, "src/nested/card.ts"), "");
+    const [addition] = await changes.first();
+    expect([...addition.added.keys()]).toEqual(["src/nested/card.ts"]);
+    expect(readdir.mock.calls.map(([dirPath]) => dirPath)).toEqual([
+      path.join(testDir, "src/nested"),
+    ]);
+
+    // Only the initial scan used fast-glob
+    expect(scans.count).toBe(1);
+    destroy();
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { writeSnapshot, getChangesSince, FileChanges } from "../src/index";
+import { createTestDir, createFiles, cleanupDir } from "./utils";
+import fs from "fs";
+import path from "path";
+
+const keysOf = (changes: FileChanges) => ({
+  added: [...changes.added.keys()].sort(),
+  deleted: [...changes.deleted.keys()].sort(),
+  changed: [...changes.changed.keys()].sort(),
+});
+
+describe("Snapshots", () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = createTestDir("snapshot-test");
+    await createFiles(
+      testDir,
+      `
+      ├─ README.md
+      └─ src
+         ├─ index.ts
+         └─ utils.ts
+    `,
+    );
+  });
+
+  afterEach(() => {
+    cleanupDir(testDir);
+  });
+
+  it("should report all files as added without a snapshot", async () => {
+    const changes = await getChangesSince("**/*.ts", ".cache/files.json", {
+      cwd: testDir,
+      mode: "fast-glob",
+    });
+
+    expect(keysOf(changes)).toEqual({
+      added: ["src/index.ts", "src/utils.ts"],
+      deleted: [],
+      changed: [],
+    });
+  });
+
+  it("should report the changes since the snapshot", async () => {
+    const options = { cwd: testDir, mode: "fast-glob" as const };
+    await writeSnapshot("**/*.ts", ".cache/files.json", options);
+    expect(fs.existsSync(path.join(testDir, ".cache/files.json"))).toBe(true);
+
+    fs.writeFileSync(path.join(testDir, "src/index.ts"), "export {};");
+    fs.writeFileSync(path.join(testDir, "src/new.ts"), "new");
+    fs.unlinkSync(path.join(testDir, "src/utils.ts"));
+
+    const changes = await getChangesSince(
+      "**/*.ts",
+      ".cache/files.json",
+      options,
+    );
+    expect(keysOf(changes)).toEqual({
+      added: ["src/new.ts"],
+      deleted: ["src/utils.ts"],
+      changed: ["src/index.ts"],
+    });
+    expect(changes.deleted.get("src/utils.ts")!.exists).toBe(false);
+  });
+
+  it("should report nothing if no file changed", async () => {
+    const options = { cwd: testDir, mode: "fast-glob" as const };
+    await writeSnapshot("**/*.ts", ".cache/files.json", options);
+
+    const changes = await getChangesSince(
+      "**/*.ts",
+      ".cache/files.json",
+      options,
+    );
+    expect(keysOf(changes)).toEqual({ added: [], deleted: [], changed: [] });
+  });
+
+  it("should ignore metadata-only changes with contentChangesOnly", async () => {
+    const options = {
+      cwd: testDir,
+      mode: "fast-glob" as const,
+      contentChangesOnly: true,
+    };
+    await writeSnapshot("**/*.ts", ".cache/files.json", options);
+
+    const future = new Date(Date.now() + 10_000);
+    fs.utimesSync(path.join(testDir, "src/index.ts"), future, future);
+    fs.writeFileSync(path.join(testDir, "src/utils.ts"), "changed");
+
+    const changes = await getChangesSince(
+      "**/*.ts",
+      ".cache/files.json",
+      options,
+    );
+    expect(keysOf(changes).changed).toEqual(["src/utils.ts"]);
+  });
+
+  it("should return absolute paths when absolute option is true", async () => {
+    const options = {
+      cwd: testDir,
+      mode: "fast-glob" as const,
+      absolute: true,
+    };
+    await writeSnapshot("**/*.ts", ".cache/files.json", options);
+    fs.unlinkSync(path.join(testDir, "src/utils.ts"));
+
+    const changes = await getChangesSince(
+      "**/*.ts",
+      ".cache/files.json",
+      options,
+    );
+    expect(keysOf(changes).deleted).toEqual([
+      path.join(testDir, "src/utils.ts"),
+    ]);
+  });
+});
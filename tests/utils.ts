@@ -1,5 +1,6 @@
 import fs from "fs";
 import path from "path";
+import { vi } from "vitest";
 
 const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
@@ -188,6 +189,20 @@ export function createTestDir(testName: string): string {
   return testDir;
 }
 
+/**
+ * Hides the messages fb-watchman logs on its own if the watchman daemon
+ * can't be started - other console.error calls still show up
+ * (undo with `vi.restoreAllMocks()`)
+ */
+export function hideWatchmanLogs(): void {
+  const consoleError = console.error;
+  vi.spyOn(console, "error").mockImplementation((...args: unknown[]) => {
+    if (!String(args[0]).startsWith("Watchman: ")) {
+      consoleError(...args);
+    }
+  });
+}
+
 /**
  * Creates a callback function that tracks its invocations and provides
  * promise-based access to callback arguments.
@@ -211,7 +226,8 @@ export function createCallTracker<Args extends any[]>() {
   }
 
   // Attach methods and properties to the callback function
-  return Object.assign(callback, {
+  // (property descriptors keep the getters live - Object.assign would copy their values)
+  const methods = {
     /**
      * Waits for and returns the next callback invocation arguments
      */
@@ -262,5 +278,9 @@ export function createCallTracker<Args extends any[]>() {
         nextResolve = resolve;
       });
     },
-  });
+  };
+  return Object.defineProperties(
+    callback,
+    Object.getOwnPropertyDescriptors(methods),
+  ) as typeof callback & typeof methods;
 }
@@ -0,0 +1,198 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  watch,
+  AbortError,
+  FileChanges,
+  ModeSelection,
+  WatchError,
+} from "../src/index";
+import { fakeWatchman, FakeClient } from "./fake-watchman";
+import { createTestDir, cleanupDir } from "./utils";
+
+vi.mock("fb-watchman", async () => ({
+  default: { Client: (await import("./fake-watchman")).FakeClient },
+}));
+
+const getSubscriptions = (client: FakeClient): string[] =>
+  client.commands
+    .filter((args) => args[0] === "subscribe")
+    .map((args) => args[2] as string);
+
+describe("watchman connection pool", () => {
+  beforeEach(() => {
+    fakeWatchman.reset();
+  });
+
+  it("should share one connection between watchers of the same root", async () => {
+    const options = { mode: "watchman" as const, cwd: "/project/src" };
+    const destroyA = await watch("**/*.ts", () => {}, options);
+    const destroyB = await watch("**/*.js", () => {}, options);
+
+    expect(fakeWatchman.clients).toHaveLength(1);
+    expect(getSubscriptions(fakeWatchman.clients[0])).toHaveLength(2);
+    destroyA();
+    destroyB();
+  });
+
+  it("should open a single connection for watchers which start at the same time", async () => {
+    const options = { mode: "watchman" as const, cwd: "/project" };
+    const destroyFns = await Promise.all(
+      Array.from({ length: 30 }, () => watch("**/*.ts", () => {}, options)),
+    );
+
+    expect(fakeWatchman.clients).toHaveLength(1);
+    const [client] = fakeWatchman.clients;
+    expect(
+      client.commands.filter((args) => args[0] === "watch-project"),
+    ).toHaveLength(1);
+    expect(getSubscriptions(client)).toHaveLength(30);
+    for (const destroy of destroyFns) {
+      destroy();
+    }
+    expect(client.isEnded).toBe(true);
+  });
+
+  it("should be ready once an async initial callback is done", async () => {
+    fakeWatchman.files = [{ name: "index.ts", exists: true, type: "f" }];
+    const steps: string[] = [];
+    const destroy = await watch(
+      "**/*.ts",
+      async () => {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        steps.push("initial callback done");
+      },
+      {
+        mode: "watchman",
+        cwd: "/project",
+        onReady: () => steps.push("onReady"),
+      },
+    );
+
+    expect(steps).toEqual(["initial callback done", "onReady"]);
+    destroy();
+  });
+
+  it("should route subscription responses to their watcher", async () => {
+    const options = { mode: "watchman" as const, cwd: "/project" };
+    const callbackA = vi.fn<(changes: FileChanges) => void>();
+    const callbackB = vi.fn<(changes: FileChanges) => void>();
+    const destroyA = await watch("**/*.ts", callbackA, options);
+    const destroyB = await watch("**/*.js", callbackB, options);
+    callbackA.mockClear();
+    callbackB.mockClear();
+
+    const [, nameB] = getSubscriptions(fakeWatchman.clients[0]);
+    fakeWatchman.clients[0].emit("subscription", {
+      subscription: nameB,
+      files: [{ name: "index.js", exists: true, type: "f" }],
+    });
+
+    expect(callbackA).not.toHaveBeenCalled();
+    expect(callbackB).toHaveBeenCalledTimes(1);
+    expect([...callbackB.mock.calls[0][0].added.keys()]).toEqual(["index.js"]);
+    destroyA();
+    destroyB();
+  });
+
+  it("should close the connection when the last watcher is destroyed", async () => {
+    const options = { mode: "watchman" as const, cwd: "/project" };
+    const destroyA = await watch("**/*.ts", () => {}, options);
+    const destroyB = await watch("**/*.js", () => {}, options);
+    const client = fakeWatchman.clients[0];
+    const [nameA] = getSubscriptions(client);
+
+    destroyA();
+    expect(client.isEnded).toBe(false);
+    expect(client.commands).toContainEqual(["unsubscribe", "/project", nameA]);
+
+    destroyB();
+    expect(client.isEnded).toBe(true);
+    expect(client.listenerCount("subscription")).toBe(0);
+    expect(client.listenerCount("error")).toBe(0);
+
+    // A new watcher opens a new connection
+    const destroyC = await watch("**/*.ts", () => {}, options);
+    expect(fakeWatchman.clients).toHaveLength(2);
+    destroyC();
+  });
+});
+
+describe("unreachable watchman daemon", () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    fakeWatchman.reset();
+    fakeWatchman.isRunning = false;
+    testDir = createTestDir("watchman-unreachable-test");
+  });
+
+  afterEach(() => {
+    cleanupDir(testDir);
+  });
+
+  it("should report the connection error as the reason for the fallback", async () => {
+    const selections: ModeSelection[] = [];
+    const errors: WatchError[] = [];
+    const destroy = await watch("**/*.ts", () => {}, {
+      mode: "watchman",
+      cwd: testDir,
+      onModeSelected: (selection) => selections.push(selection),
+      onError: (error) => errors.push(error),
+    });
+
+    expect(selections[0]).toMatchObject({
+      mode: "native",
+      fallbacks: [
+        {
+          mode: "watchman",
+          reason: "Watchman is not available: connect ENOENT",
+        },
+      ],
+    });
+    expect(errors.map((error) => error.message)).toEqual([
+      "Watchman is not available: connect ENOENT",
+    ]);
+    expect(fakeWatchman.clients[0].isEnded).toBe(true);
+    destroy();
+  });
+});
+
+describe("aborted watchman watchers", () => {
+  beforeEach(() => {
+    fakeWatchman.reset();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should release the connection when the initial run is aborted", async () => {
+    const controller = new AbortController();
+    const command = FakeClient.prototype.command;
+    vi.spyOn(FakeClient.prototype, "command").mockImplementation(function (
+      this: FakeClient,
+      args,
+      callback,
+    ) {
+      command.call(this, args, callback);
+      // Abort before watchman lists the initial files
+      if (args[0] === "subscribe") {
+        controller.abort();
+      }
+    });
+    const onModeSelected = vi.fn();
+
+    await expect(
+      watch("**/*.ts", () => {}, {
+        mode: "watchman",
+        cwd: "/project",
+        signal: controller.signal,
+        onModeSelected,
+      }),
+    ).rejects.toThrow(AbortError);
+
+    await vi.waitFor(() => expect(fakeWatchman.clients[0].isEnded).toBe(true));
+    // Aborting does not fall back to the native backend
+    expect(onModeSelected).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { watch, FileChanges, WatchError } from "../src/index";
+import { fakeWatchman } from "./fake-watchman";
+import { createTestDir, createFiles, cleanupDir } from "./utils";
+
+vi.mock("fb-watchman", async () => ({
+  default: { Client: (await import("./fake-watchman")).FakeClient },
+}));
+
+const keysOf = (changes: FileChanges) => ({
+  added: [...changes.added.keys()].sort(),
+  deleted: [...changes.deleted.keys()].sort(),
+  changed: [...changes.changed.keys()].sort(),
+});
+
+describe("watchman reconnect", () => {
+  const options = {
+    mode: "watchman" as const,
+    cwd: "/project",
+    reconnectDelay: 1,
+  };
+
+  beforeEach(() => {
+    fakeWatchman.reset();
+    fakeWatchman.files = [
+      { name: "a.ts", exists: true, type: "f", size: 1, mtime_ms: 1 },
+      { name: "b.ts", exists: true, type: "f", size: 1, mtime_ms: 1 },
+    ];
+  });
+
+  it("should report the changes missed while the connection was lost", async () => {
+    const errors: WatchError[] = [];
+    const callback = vi.fn<(changes: FileChanges) => void>();
+    const destroy = await watch("**/*.ts", callback, {
+      ...options,
+      onError: (error) => errors.push(error),
+    });
+    callback.mockClear();
+
+    fakeWatchman.changesSinceClock = [
+      { name: "c.ts", exists: true, type: "f", size: 1, mtime_ms: 2 },
+      { name: "b.ts", exists: false, type: "f" },
+    ];
+    fakeWatchman.clients[0].disconnect();
+
+    await vi.waitFor(() => expect(callback).toHaveBeenCalled());
+    expect(keysOf(callback.mock.calls[0][0])).toEqual({
+      added: ["c.ts"],
+      deleted: ["b.ts"],
+      changed: [],
+    });
+    expect(fakeWatchman.clients).toHaveLength(2);
+    expect(errors.map(({ message }) => message)).toEqual([
+      "Lost the connection to watchman, reconnecting",
+    ]);
+    expect(errors[0].recoverable).toBe(true);
+    destroy();
+  });
+
+  it("should compare all files after a daemon restart", async () => {
+    const callback = vi.fn<(changes: FileChanges) => void>();
+    const destroy = await watch("**/*.ts", callback, {
+      ...options,
+      onError: () => {},
+    });
+    callback.mockClear();
+
+    fakeWatchman.files = [
+      { name: "a.ts", exists: true, type: "f", size: 2, mtime_ms: 2 },
+      { name: "c.ts", exists: true, type: "f", size: 1, mtime_ms: 1 },
+    ];
+    fakeWatchman.restart();
+
+    await vi.waitFor(() => expect(callback).toHaveBeenCalled());
+    expect(keysOf(callback.mock.calls[0][0])).toEqual({
+      added: ["c.ts"],
+      deleted: ["b.ts"],
+      changed: ["a.ts"],
+    });
+    destroy();
+  });
+
+  it("should stop with a non-recoverable error if watchman stays down", async () => {
+    const errors: WatchError[] = [];
+    const destroy = await watch("**/*.ts", () => {}, {
+      ...options,
+      reconnectAttempts: 2,
+      onError: (error) => errors.push(error),
+    });
+
+    fakeWatchman.isRunning = false;
+    fakeWatchman.restart();
+
+    await vi.waitFor(() => expect(errors).toHaveLength(2));
+    expect(errors[1].message).toBe(
+      "Watchman can't be reached anymore, stopped watching",
+    );
+    expect(errors[1].recoverable).toBe(false);
+    // The first client and one per attempt
+    expect(fakeWatchman.clients).toHaveLength(3);
+    destroy();
+  });
+});
+
+describe("watchman fallback on disconnect", () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    fakeWatchman.reset();
+    testDir = createTestDir("watchman-reconnect-test");
+    await createFiles(
+      testDir,
+      `
+      ├─ a.ts
+      └─ b.ts
+    `,
+    );
+  });
+
+  afterEach(() => {
+    cleanupDir(testDir);
+  });
+
+  it("should continue with native if watchman can't be reached", async () => {
+    fakeWatchman.files = [{ name: "a.ts", exists: true, type: "f" }];
+    const errors: WatchError[] = [];
+    const callback = vi.fn<(changes: FileChanges) => void>();
+    const destroy = await watch("**/*.ts", callback, {
+      mode: "watchman",
+      cwd: testDir,
+      reconnectAttempts: 1,
+      fallbackOnDisconnect: true,
+      onError: (error) => errors.push(error),
+    });
+    callback.mockClear();
+
+    fakeWatchman.isRunning = false;
+    fakeWatchman.restart();
+
+    await vi.waitFor(() => expect(callback).toHaveBeenCalled());
+    expect(keysOf(callback.mock.calls[0][0])).toEqual({
+      added: ["b.ts"],
+      deleted: [],
+      changed: [],
+    });
+    expect(errors[1].message).toBe(
+      "Watchman can't be reached anymore, continuing with native",
+    );
+    expect([...destroy.getWatchedFiles().keys()].sort()).toEqual([
+      "a.ts",
+      "b.ts",
+    ]);
+    destroy();
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { watch, withState, FileChanges, WatchmanState } from "../src/index";
+import { fakeWatchman } from "./fake-watchman";
+
+vi.mock("fb-watchman", async () => ({
+  default: { Client: (await import("./fake-watchman")).FakeClient },
+}));
+
+describe("watchman states", () => {
+  beforeEach(() => {
+    fakeWatchman.reset();
+  });
+
+  it("should pass defer and drop to the subscription", async () => {
+    const destroy = await watch("**/*.ts", () => {}, {
+      mode: "watchman",
+      cwd: "/project",
+      defer: ["hg.update"],
+      drop: ["codegen"],
+    });
+
+    const [subscribe] = fakeWatchman.clients[0].commands.filter(
+      (args) => args[0] === "subscribe",
+    );
+    expect(subscribe[3]).toMatchObject({
+      defer: ["hg.update"],
+      drop: ["codegen"],
+    });
+    destroy();
+  });
+
+  it("should report state notifications to the hooks", async () => {
+    const entered: WatchmanState[] = [];
+    const left: WatchmanState[] = [];
+    const callback = vi.fn<(changes: FileChanges) => void>();
+    const destroy = await watch("**/*.ts", callback, {
+      mode: "watchman",
+      cwd: "/project",
+      defer: ["hg.update"],
+      onStateEnter: (state) => entered.push(state),
+      onStateLeave: (state) => left.push(state),
+    });
+    callback.mockClear();
+
+    const client = fakeWatchman.clients[0];
+    const [, , subscription] = client.commands.find(
+      (args) => args[0] === "subscribe",
+    )!;
+    client.emit("subscription", {
+      subscription,
+      "state-enter": "hg.update",
+      metadata: { rev: "abc" },
+    });
+    client.emit("subscription", {
+      subscription,
+      "state-leave": "hg.update",
+      abandoned: true,
+    });
+
+    expect(entered).toEqual([{ name: "hg.update", metadata: { rev: "abc" } }]);
+    expect(left).toEqual([{ name: "hg.update", abandoned: true }]);
+    expect(callback).not.toHaveBeenCalled();
+    destroy();
+  });
+
+  it("should assert a state around an operation", async () => {
+    const result = await withState(
+      "codegen",
+      () => {
+        const [client] = fakeWatchman.clients;
+        expect(client.commands.at(-1)).toEqual([
+          "state-enter",
+          "/project",
+          { name: "codegen", metadata: { files: 3 } },
+        ]);
+        return "done";
+      },
+      { cwd: "/project", metadata: { files: 3 } },
+    );
+
+    expect(result).toBe("done");
+    const [client] = fakeWatchman.clients;
+    expect(client.commands.at(-1)).toEqual([
+      "state-leave",
+      "/project",
+      { name: "codegen", metadata: { files: 3 } },
+    ]);
+    expect(client.isEnded).toBe(true);
+  });
+
+  it("should run the operation without watchman", async () => {
+    fakeWatchman.isRunning = false;
+    const operation = vi.fn(() => 42);
+
+    await expect(
+      withState("codegen", operation, { cwd: "/project" }),
+    ).resolves.toBe(42);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});